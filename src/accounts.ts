@@ -0,0 +1,198 @@
+/**
+ * 多账号管理
+ *
+ * 每个账号对应独立的 Chrome 用户数据目录和调试端口，互不共享 Cookies。
+ * 账号列表保存在 ~/.auto-tauri/accounts.json；
+ * default 账号沿用原有的 browser-profile 目录和 9222 端口 (可由 XHS_AGENT_CDP_PORT 等覆盖，见 browser.ts)。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { BrowserTarget, defaultBrowserTarget } from './browser';
+import { writeOutput } from './logger';
+import { AGENT_HOME } from './paths';
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+const ACCOUNTS_FILE = path.join(AGENT_HOME, 'accounts.json');
+const PROFILES_DIR = path.join(AGENT_HOME, 'profiles');
+const ACCOUNT_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// 发布频率限制 (由发布记录 ledger 执行)
+export interface PublishLimits {
+    dailyCap?: number;              // Max published notes per calendar day
+    minIntervalMinutes?: number;    // Min time between two published notes
+}
+
+export interface Account extends BrowserTarget {
+    id: string;
+    name?: string;
+    createdAt: string;
+    limits?: PublishLimits;
+}
+
+const defaultAccount = (): Account => ({
+    id: DEFAULT_ACCOUNT_ID,
+    ...defaultBrowserTarget(),
+    createdAt: new Date(0).toISOString(),
+});
+
+function readAccounts(): Account[] {
+    if (!fs.existsSync(ACCOUNTS_FILE)) return [];
+    try {
+        const parsed = JSON.parse(fs.readFileSync(ACCOUNTS_FILE, 'utf-8'));
+        return Array.isArray(parsed.accounts) ? parsed.accounts : [];
+    } catch (e: any) {
+        throw new Error(`Failed to read ${ACCOUNTS_FILE}: ${e.message}`);
+    }
+}
+
+function writeAccounts(accounts: Account[]): void {
+    fs.mkdirSync(AGENT_HOME, { recursive: true });
+    fs.writeFileSync(ACCOUNTS_FILE, JSON.stringify({ accounts }, null, 2));
+}
+
+export function listAccounts(): Account[] {
+    const accounts = readAccounts();
+    // The default account's browser target always follows the current overrides,
+    // which must not point at another account's Chrome
+    const target = defaultBrowserTarget();
+    const clash = accounts.find(a => a.id !== DEFAULT_ACCOUNT_ID && a.port === target.port);
+    if (clash) {
+        throw new Error(`CDP port ${target.port} (XHS_AGENT_CDP_PORT / --cdp-port) is already assigned to account ${clash.id}`);
+    }
+    return accounts.some(a => a.id === DEFAULT_ACCOUNT_ID)
+        ? accounts.map(a => a.id === DEFAULT_ACCOUNT_ID ? { ...a, ...target } : a)
+        : [defaultAccount(), ...accounts];
+}
+
+export function getAccount(accountId: string = DEFAULT_ACCOUNT_ID): Account {
+    const account = listAccounts().find(a => a.id === accountId);
+    if (!account) {
+        throw new Error(`Unknown account: ${accountId}. Add it with: accounts add ${accountId}`);
+    }
+    return account;
+}
+
+export function addAccount(id: string, options: { name?: string; port?: number } = {}): Account {
+    if (!ACCOUNT_ID_PATTERN.test(id)) {
+        throw new Error(`Invalid account id "${id}": use letters, digits, '-' or '_'`);
+    }
+
+    const accounts = listAccounts();
+    if (accounts.some(a => a.id === id)) {
+        throw new Error(`Account already exists: ${id}`);
+    }
+
+    const usedPorts = new Set(accounts.map(a => a.port));
+    let port = options.port ?? Math.max(...usedPorts) + 1;
+    if (options.port === undefined) {
+        while (usedPorts.has(port)) port++;
+    } else if (usedPorts.has(port)) {
+        throw new Error(`Port ${port} is already assigned to account ${accounts.find(a => a.port === port)!.id}`);
+    }
+
+    const account: Account = {
+        id,
+        name: options.name,
+        port,
+        userDataDir: path.join(PROFILES_DIR, id),
+        createdAt: new Date().toISOString(),
+    };
+    fs.mkdirSync(account.userDataDir, { recursive: true });
+    writeAccounts([...readAccounts(), account]);
+    return account;
+}
+
+export function removeAccount(id: string, deleteProfile = false): Account {
+    if (id === DEFAULT_ACCOUNT_ID) {
+        throw new Error('The default account cannot be removed');
+    }
+
+    const accounts = readAccounts();
+    const account = accounts.find(a => a.id === id);
+    if (!account) {
+        throw new Error(`Unknown account: ${id}`);
+    }
+
+    writeAccounts(accounts.filter(a => a.id !== id));
+    if (deleteProfile) {
+        fs.rmSync(account.userDataDir, { recursive: true, force: true });
+    }
+    return account;
+}
+
+// Merge limits into the account (0 clears a limit); registers the default account if needed
+export function setAccountLimits(id: string, limits: PublishLimits): Account {
+    const account = getAccount(id);
+    const merged: PublishLimits = { ...account.limits, ...limits };
+    for (const key of Object.keys(merged) as Array<keyof PublishLimits>) {
+        if (!merged[key]) delete merged[key];
+    }
+
+    const updated: Account = { ...account, limits: merged };
+    const accounts = readAccounts();
+    writeAccounts(accounts.some(a => a.id === id) ? accounts.map(a => a.id === id ? updated : a) : [updated, ...accounts]);
+    return updated;
+}
+
+// ============================================================================
+// accounts 命令
+// ============================================================================
+
+/**
+ * accounts list
+ * accounts add <id> [--name <name>] [--port <port>]
+ * accounts remove <id> [--delete-profile]
+ * accounts limits <id> [--daily-cap <n>] [--min-interval <minutes>]   (0 清除限制)
+ */
+export function runAccountsCommand(args: string[]): void {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            name: { type: 'string' },
+            port: { type: 'string' },
+            'delete-profile': { type: 'boolean' },
+            'daily-cap': { type: 'string' },
+            'min-interval': { type: 'string' },
+        },
+    });
+    const [action = 'list', id] = positionals;
+
+    switch (action) {
+        case 'list':
+            writeOutput({ type: 'accounts', accounts: listAccounts() });
+            break;
+        case 'add': {
+            if (!id) throw new Error('Usage: accounts add <id> [--name <name>] [--port <port>]');
+            const port = values.port !== undefined ? Number(values.port) : undefined;
+            if (port !== undefined && (!Number.isInteger(port) || port < 1024 || port > 65535)) {
+                throw new Error(`Invalid port: ${values.port}`);
+            }
+            writeOutput({ type: 'account_added', account: addAccount(id, { name: values.name, port }) });
+            break;
+        }
+        case 'remove':
+            if (!id) throw new Error('Usage: accounts remove <id> [--delete-profile]');
+            writeOutput({ type: 'account_removed', account: removeAccount(id, !!values['delete-profile']) });
+            break;
+        case 'limits': {
+            if (!id) throw new Error('Usage: accounts limits <id> [--daily-cap <n>] [--min-interval <minutes>]');
+            const limits: PublishLimits = {};
+            for (const [flag, key] of [['daily-cap', 'dailyCap'], ['min-interval', 'minIntervalMinutes']] as const) {
+                const raw = values[flag];
+                if (raw === undefined) continue;
+                const value = Number(raw);
+                if (!Number.isInteger(value) || value < 0) throw new Error(`Invalid --${flag}: ${raw}`);
+                limits[key] = value;
+            }
+            const account = Object.keys(limits).length > 0 ? setAccountLimits(id, limits) : getAccount(id);
+            writeOutput({ type: 'account_limits', accountId: account.id, limits: account.limits ?? {} });
+            break;
+        }
+        default:
+            throw new Error(`Unknown accounts action: ${action}`);
+    }
+}
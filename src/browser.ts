@@ -0,0 +1,344 @@
+/**
+ * CDP 浏览器管理
+ *
+ * 连接已运行的 Chrome，或以远程调试端口启动一个新的实例。
+ * 可执行文件、默认账号的端口 / 用户数据目录、附加启动参数和 headless 模式
+ * 可通过环境变量或全局命令行参数覆盖 (命令行优先):
+ *
+ *   XHS_AGENT_CHROME_PATH   --chrome-path <path>
+ *   XHS_AGENT_CDP_PORT      --cdp-port <port>
+ *   XHS_AGENT_PROFILE_DIR   --profile-dir <dir>
+ *   XHS_AGENT_CHROME_FLAGS  --chrome-flag=<flag> (可重复; 环境变量以空格分隔)
+ *   XHS_AGENT_HEADLESS      --headless[=new|old]
+ */
+
+import { chromium, Browser, Page } from 'playwright';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as net from 'net';
+import { spawn, ChildProcess } from 'child_process';
+import { log, sleep } from './logger';
+import { AGENT_HOME } from './paths';
+
+// ============================================================================
+// CDP 配置
+// ============================================================================
+
+export const CDP_PORT = 9222;
+export const USER_DATA_DIR = path.join(AGENT_HOME, 'browser-profile');
+
+// 每个账号独立的 Chrome 实例: 独立调试端口 + 独立用户数据目录
+export interface BrowserTarget {
+    port: number;
+    userDataDir: string;
+}
+
+// new: --headless=new (完整 Chrome 无窗口运行); old: 旧版 headless 实现
+export type HeadlessMode = 'new' | 'old';
+
+export interface BrowserLaunchOptions {
+    executablePath?: string;
+    port?: number;          // Default account only; other accounts keep their registered ports
+    userDataDir?: string;   // Default account only
+    extraFlags?: string[];
+    headless?: HeadlessMode;
+}
+
+const cdpEndpoint = (port: number) => `http://127.0.0.1:${port}`;
+
+// Chrome 可执行文件路径 (macOS + Windows + Linux)
+const CHROME_PATHS = [
+    // macOS
+    '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+    '/Applications/Chromium.app/Contents/MacOS/Chromium',
+    path.join(os.homedir(), 'Applications/Google Chrome.app/Contents/MacOS/Google Chrome'),
+    // Windows
+    'C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe',
+    'C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe',
+    path.join(os.homedir(), 'AppData\\Local\\Google\\Chrome\\Application\\chrome.exe'),
+    // Linux
+    '/usr/bin/google-chrome',
+    '/usr/bin/google-chrome-stable',
+    '/opt/google/chrome/chrome',
+    '/usr/bin/chromium',
+    '/usr/bin/chromium-browser',
+    '/snap/bin/chromium',
+];
+
+// Looked up in PATH when none of the standard locations exist
+const CHROME_COMMANDS = ['google-chrome', 'google-chrome-stable', 'chromium', 'chromium-browser', 'chrome'];
+
+const chromeProcesses = new Map<number, ChildProcess>();
+
+let cliOverrides: BrowserLaunchOptions = {};
+
+// Apply overrides from the global command line flags (see extractBrowserArgs)
+export function configureBrowser(overrides: BrowserLaunchOptions): void {
+    cliOverrides = overrides;
+}
+
+function parsePort(raw: string, source: string): number {
+    const port = Number(raw);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`Invalid CDP port from ${source}: ${raw}`);
+    }
+    return port;
+}
+
+function parseHeadless(raw: string, source: string): HeadlessMode | undefined {
+    const value = raw.toLowerCase();
+    if (['', '1', 'true', 'new'].includes(value)) return 'new';
+    if (value === 'old') return 'old';
+    if (['0', 'false'].includes(value)) return undefined;
+    throw new Error(`Invalid headless mode from ${source}: ${raw} (allowed: new, old)`);
+}
+
+function envOptions(): BrowserLaunchOptions {
+    const env = process.env;
+    return {
+        executablePath: env.XHS_AGENT_CHROME_PATH || undefined,
+        port: env.XHS_AGENT_CDP_PORT ? parsePort(env.XHS_AGENT_CDP_PORT, 'XHS_AGENT_CDP_PORT') : undefined,
+        userDataDir: env.XHS_AGENT_PROFILE_DIR || undefined,
+        extraFlags: env.XHS_AGENT_CHROME_FLAGS?.split(/\s+/).filter(Boolean),
+        headless: env.XHS_AGENT_HEADLESS !== undefined ? parseHeadless(env.XHS_AGENT_HEADLESS, 'XHS_AGENT_HEADLESS') : undefined,
+    };
+}
+
+export function getLaunchOptions(): BrowserLaunchOptions {
+    const fromEnv = envOptions();
+    const merged = { ...fromEnv };
+    for (const [key, value] of Object.entries(cliOverrides) as Array<[keyof BrowserLaunchOptions, any]>) {
+        if (value !== undefined) merged[key] = value;
+    }
+    return merged;
+}
+
+// Target of the default (unregistered) account, with port / profile overrides applied
+export function defaultBrowserTarget(): BrowserTarget {
+    const options = getLaunchOptions();
+    return { port: options.port ?? CDP_PORT, userDataDir: options.userDataDir ? path.resolve(options.userDataDir) : USER_DATA_DIR };
+}
+
+/**
+ * 从参数中取出全局浏览器参数，返回剩余参数和覆盖项。
+ * --chrome-flag 的值以 -- 开头时需写成 --chrome-flag=--no-sandbox
+ */
+export function extractBrowserArgs(args: string[]): { args: string[]; overrides: BrowserLaunchOptions } {
+    const rest: string[] = [];
+    const overrides: BrowserLaunchOptions = {};
+
+    for (let i = 0; i < args.length; i++) {
+        const match = args[i].match(/^--(chrome-path|cdp-port|profile-dir|chrome-flag|headless)(?:=(.*))?$/);
+        if (!match) {
+            rest.push(args[i]);
+            continue;
+        }
+        const [, flag, inline] = match;
+        if (flag === 'headless') {
+            overrides.headless = parseHeadless(inline ?? '', '--headless');
+            continue;
+        }
+        const value = inline ?? args[++i];
+        if (value === undefined) throw new Error(`Missing value for --${flag}`);
+        if (flag === 'chrome-path') overrides.executablePath = value;
+        if (flag === 'cdp-port') overrides.port = parsePort(value, '--cdp-port');
+        if (flag === 'profile-dir') overrides.userDataDir = value;
+        if (flag === 'chrome-flag') overrides.extraFlags = [...(overrides.extraFlags ?? []), value];
+    }
+    return { args: rest, overrides };
+}
+
+function findInPath(commands: string[]): string | null {
+    const extensions = process.platform === 'win32' ? ['.exe', ''] : [''];
+    for (const dir of (process.env.PATH ?? '').split(path.delimiter).filter(Boolean)) {
+        for (const command of commands) {
+            for (const ext of extensions) {
+                const candidate = path.join(dir, command + ext);
+                try {
+                    fs.accessSync(candidate, fs.constants.X_OK);
+                    if (fs.statSync(candidate).isFile()) return candidate;
+                } catch { }
+            }
+        }
+    }
+    return null;
+}
+
+export function getChromePath(): string | null {
+    const { executablePath } = getLaunchOptions();
+    if (executablePath) {
+        if (!fs.existsSync(executablePath)) {
+            throw new Error(`指定的 Chrome 可执行文件不存在: ${executablePath}`);
+        }
+        return executablePath;
+    }
+
+    for (const chromePath of CHROME_PATHS) {
+        if (fs.existsSync(chromePath)) {
+            return chromePath;
+        }
+    }
+    return findInPath(CHROME_COMMANDS);
+}
+
+type PortState = 'chrome' | 'other' | 'free';
+
+function isPortOpen(port: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const socket = net.createConnection({ host: '127.0.0.1', port });
+        const done = (open: boolean) => {
+            socket.destroy();
+            resolve(open);
+        };
+        socket.setTimeout(1000, () => done(false));
+        socket.once('connect', () => done(true));
+        socket.once('error', () => done(false));
+    });
+}
+
+// A DevTools endpoint answers /json/version with the browser's WebSocket URL
+async function probePort(port: number): Promise<PortState> {
+    try {
+        const response = await fetch(`${cdpEndpoint(port)}/json/version`, { signal: AbortSignal.timeout(2000) });
+        const body: any = response.ok ? await response.json().catch(() => null) : null;
+        return body?.webSocketDebuggerUrl ? 'chrome' : 'other';
+    } catch {
+        return await isPortOpen(port) ? 'other' : 'free';
+    }
+}
+
+export async function isCDPAvailable(port = CDP_PORT): Promise<boolean> {
+    return (await probePort(port)) === 'chrome';
+}
+
+function launchFlags(target: BrowserTarget, options: BrowserLaunchOptions): string[] {
+    const flags = [
+        `--remote-debugging-port=${target.port}`,
+        `--user-data-dir=${target.userDataDir}`,
+        '--no-first-run',
+        '--no-default-browser-check',
+    ];
+    if (options.headless) {
+        flags.push(options.headless === 'new' ? '--headless=new' : '--headless=old');
+    }
+    // Chrome refuses to start as root without it (containers, CI)
+    if (process.platform === 'linux' && process.getuid?.() === 0 && !options.extraFlags?.includes('--no-sandbox')) {
+        flags.push('--no-sandbox');
+    }
+    return [...flags, ...(options.extraFlags ?? [])];
+}
+
+export async function launchChrome(target: BrowserTarget = defaultBrowserTarget()): Promise<void> {
+    const chromePath = getChromePath();
+    if (!chromePath) {
+        throw new Error('Chrome 未找到，请安装 Google Chrome / Chromium，或通过 XHS_AGENT_CHROME_PATH / --chrome-path 指定');
+    }
+
+    if (!fs.existsSync(target.userDataDir)) {
+        fs.mkdirSync(target.userDataDir, { recursive: true });
+    }
+
+    const options = getLaunchOptions();
+    if (process.platform === 'linux' && !options.headless && !process.env.DISPLAY && !process.env.WAYLAND_DISPLAY) {
+        log('未检测到图形界面 (DISPLAY)，Chrome 可能无法启动，可使用 --headless 或 XHS_AGENT_HEADLESS=1');
+    }
+
+    const flags = launchFlags(target, options);
+    log(`正在启动 Chrome (CDP Stealth 模式${options.headless ? `, headless=${options.headless}` : ''})...`);
+    log(`Chrome 路径: ${chromePath}`);
+    log(`用户数据目录: ${target.userDataDir}`);
+    log(`调试端口: ${target.port}`);
+    if (options.extraFlags?.length) log(`附加启动参数: ${options.extraFlags.join(' ')}`);
+
+    const chromeProcess = spawn(chromePath, flags, {
+        detached: true,
+        stdio: 'ignore'
+    });
+
+    let exitReason: string | null = null;
+    chromeProcess.once('error', e => { exitReason = e.message; });
+    chromeProcess.once('exit', (code, signal) => { exitReason = `exit code ${code ?? signal}`; });
+    chromeProcess.unref();
+    chromeProcesses.set(target.port, chromeProcess);
+
+    log(`等待 CDP 端口就绪...`);
+    let retries = 0;
+    const maxRetries = 20;
+    while (retries < maxRetries) {
+        if (await isCDPAvailable(target.port)) {
+            log(`CDP 端口已就绪`);
+            return;
+        }
+        // Exiting right away usually means a bad flag, a missing display or an existing
+        // instance on the same profile that took over the launch
+        if (exitReason) {
+            chromeProcesses.delete(target.port);
+            throw new Error(`Chrome 进程已退出 (${exitReason})，调试端口 ${target.port} 未就绪`);
+        }
+        await sleep(500);
+        retries++;
+    }
+
+    throw new Error(`Chrome 启动超时 (端口 ${target.port} 在 ${maxRetries * 0.5} 秒内未就绪)`);
+}
+
+// Chrome writes DevToolsActivePort (port + browser WebSocket path) into its user data dir when the
+// debugging server starts; the instance on this port uses the expected profile only if the path matches
+async function verifyProfile(target: BrowserTarget): Promise<void> {
+    let wsPath: string;
+    try {
+        const response = await fetch(`${cdpEndpoint(target.port)}/json/version`, { signal: AbortSignal.timeout(2000) });
+        wsPath = new URL((await response.json()).webSocketDebuggerUrl).pathname;
+    } catch (e: any) {
+        throw new Error(`无法读取端口 ${target.port} 上 Chrome 的调试信息: ${e.message}`);
+    }
+
+    const activePortFile = path.join(target.userDataDir, 'DevToolsActivePort');
+    // A freshly launched Chrome may answer on the port just before the file is written
+    for (let retries = 0; retries < 10; retries++) {
+        try {
+            const [port, browserPath] = fs.readFileSync(activePortFile, 'utf-8').split('\n').map(line => line.trim());
+            if (Number(port) === target.port && browserPath === wsPath) return;
+        } catch { }
+        await sleep(200);
+    }
+    throw new Error(`端口 ${target.port} 上的 Chrome 未使用用户数据目录 ${target.userDataDir}，拒绝连接以避免共享 Cookies`);
+}
+
+export async function connectCDP(target: BrowserTarget = defaultBrowserTarget()): Promise<Browser> {
+    const state = await probePort(target.port);
+    if (state === 'chrome') {
+        log(`检测到已运行的 Chrome (端口 ${target.port})，正在连接...`);
+    } else if (state === 'other') {
+        throw new Error(`端口 ${target.port} 已被其他程序占用 (不是 Chrome 调试端口)，请关闭该程序或通过 XHS_AGENT_CDP_PORT / --cdp-port 更换端口`);
+    } else {
+        await launchChrome(target);
+    }
+
+    await verifyProfile(target);
+    const browser = await chromium.connectOverCDP(cdpEndpoint(target.port));
+    log(`已通过 CDP 连接到浏览器 (Stealth 模式)`);
+    return browser;
+}
+
+export async function getOrCreatePage(browser: Browser): Promise<Page> {
+    const contexts = browser.contexts();
+
+    if (contexts.length > 0) {
+        const context = contexts[0];
+        const pages = context.pages();
+        if (pages.length > 0) {
+            log(`使用现有页面`);
+            return pages[0];
+        }
+        log(`在现有上下文中创建新页面`);
+        return await context.newPage();
+    }
+
+    log(`创建新的浏览器上下文和页面`);
+    const context = await browser.newContext({
+        viewport: { width: 1280, height: 800 }
+    });
+    return await context.newPage();
+}
@@ -0,0 +1,95 @@
+/**
+ * 任务取消与截止时间
+ *
+ * 每个任务一个 TaskAbort: 外部取消信号 (stdin 消息 / 进程信号 / HTTP) 和 deadlineMs 超时
+ * 都会触发中止。阶段开始前检查一次 (checkpoint)，可中止的阶段在执行中也会立即结束；
+ * 点击发布之后的阶段不可中止，之后的 checkpoint 也不再抛出，避免笔记已发出却报告为取消。
+ */
+
+import { PublishStage, withStage } from './events';
+
+export type CancelReason = 'cancelled' | 'deadline_exceeded';
+
+export class TaskCancelledError extends Error {
+    constructor(public readonly reason: CancelReason, public readonly stage: PublishStage | null) {
+        super(reason === 'deadline_exceeded'
+            ? `Task deadline exceeded${stage ? ` during ${stage}` : ''}`
+            : `Task cancelled${stage ? ` during ${stage}` : ''}`);
+        this.name = 'TaskCancelledError';
+    }
+}
+
+// Once the publish button has been clicked the outcome must be reported as-is;
+// browser_connect is short and abandoning it would leak the CDP connection
+const NON_ABORTABLE_STAGES: PublishStage[] = ['browser_connect', 'draft_save', 'publish_attempt', 'confirmation'];
+
+export interface TaskAbort {
+    readonly signal: AbortSignal;
+    // Last stage that was started
+    readonly stage: PublishStage | null;
+    // True once the first publish attempt has started; the note may exist from then on
+    readonly submitted: boolean;
+    // Throws TaskCancelledError if the task has been aborted
+    checkpoint(stage?: PublishStage): void;
+    // withStage() with a checkpoint before it; abortable stages also end as soon as the task is aborted
+    runStage<T>(taskId: string | undefined, stage: PublishStage, fn: () => Promise<T>, attempt?: number): Promise<T>;
+    dispose(): void;
+}
+
+export function createTaskAbort(deadlineMs?: number, external?: AbortSignal): TaskAbort {
+    const controller = new AbortController();
+    let reason: CancelReason = 'cancelled';
+    let currentStage: PublishStage | null = null;
+    // Set once the first publish attempt starts; later checkpoints no longer throw
+    let submitted = false;
+
+    const abort = (why: CancelReason) => {
+        if (controller.signal.aborted) return;
+        reason = why;
+        controller.abort();
+    };
+
+    const onExternalAbort = () => abort('cancelled');
+    if (external?.aborted) {
+        abort('cancelled');
+    } else {
+        external?.addEventListener('abort', onExternalAbort, { once: true });
+    }
+    const timer = deadlineMs ? setTimeout(() => abort('deadline_exceeded'), deadlineMs) : null;
+
+    const checkpoint = (stage?: PublishStage) => {
+        if (stage) currentStage = stage;
+        if (controller.signal.aborted && !submitted) throw new TaskCancelledError(reason, currentStage);
+    };
+
+    // Settle as soon as the task is aborted; the abandoned operation's outcome is ignored
+    const race = <T>(promise: Promise<T>): Promise<T> => {
+        promise.catch(() => { });
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(new TaskCancelledError(reason, currentStage));
+            controller.signal.addEventListener('abort', onAbort, { once: true });
+            promise.then(resolve, reject).finally(() => controller.signal.removeEventListener('abort', onAbort));
+        });
+    };
+
+    return {
+        signal: controller.signal,
+        get stage() {
+            return currentStage;
+        },
+        get submitted() {
+            return submitted;
+        },
+        checkpoint,
+        runStage<T>(taskId: string | undefined, stage: PublishStage, fn: () => Promise<T>, attempt?: number): Promise<T> {
+            checkpoint(stage);
+            if (stage === 'publish_attempt') submitted = true;
+            const abortable = !NON_ABORTABLE_STAGES.includes(stage);
+            return withStage(taskId, stage, () => abortable ? race(fn()) : fn(), attempt);
+        },
+        dispose() {
+            if (timer) clearTimeout(timer);
+            external?.removeEventListener('abort', onExternalAbort);
+        },
+    };
+}
@@ -0,0 +1,422 @@
+/**
+ * 评论收件箱与回复 (comments 命令)
+ *
+ * 复用 CDP 会话打开主站的"评论和@"通知页，从页面自身发出的通知接口响应中读取最近评论
+ * (作者、内容、时间、笔记 ID)，并在对应的通知条目上点击回复发送。
+ * 已回复的评论记录在 ~/.auto-tauri/comment-replies.jsonl，自动回复不会重复回复同一条评论。
+ *
+ * 自动回复规则文件 (JSON):
+ * {
+ *   "rules": [{ "keywords": ["多少钱", "价格"], "reply": "{author} 你好，价格在置顶评论里哦" }],
+ *   "maxReplies": 5,             // 每次运行最多回复条数 (可被 --limit 覆盖)
+ *   "delaySeconds": [8, 20]      // 两次回复之间的随机间隔
+ * }
+ * 按顺序取第一条命中的规则，关键词不区分大小写；{author} 替换为评论作者昵称。
+ */
+
+import { Page, Response } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { getAccount } from './accounts';
+import { connectCDP, getOrCreatePage } from './browser';
+import { humanClick, humanScroll, humanType } from './humanize';
+import { isOnLoginPage } from './login';
+import { log, sleep, writeOutput } from './logger';
+import { AGENT_HOME } from './paths';
+import { findVisible, locators, locatorsIn } from './selectors';
+import { notificationUrl } from './urls';
+
+export const REPLIES_FILE = path.join(AGENT_HOME, 'comment-replies.jsonl');
+
+// 评论和@ 通知接口 / 发表评论接口
+const MENTIONS_API_PATTERN = /\/api\/sns\/web\/v\d+\/you\/mentions/;
+const COMMENT_POST_API_PATTERN = /\/api\/sns\/web\/v\d+\/comment\/post/;
+const NEXT_PAGE_TIMEOUT = 8000;
+const REPLY_CONFIRM_TIMEOUT = 10000;
+
+const DEFAULT_LIST_LIMIT = 50;
+// Safety net for auto-reply when neither the rule file nor --limit sets one
+const DEFAULT_MAX_REPLIES = 5;
+const DEFAULT_REPLY_DELAY_SECONDS: [number, number] = [8, 20];
+
+export class CommentReplyError extends Error {
+    constructor(public readonly commentId: string, message: string) {
+        super(message);
+        this.name = 'CommentReplyError';
+    }
+}
+
+export interface CommentSummary {
+    commentId: string;
+    noteId?: string;
+    noteTitle?: string;
+    author: { userId?: string; nickname?: string };
+    text: string;
+    time?: string;            // ISO 8601
+    replied: boolean;
+}
+
+export interface ReplyRule {
+    keywords: string[];
+    reply: string;
+}
+
+export interface ReplyRuleFile {
+    rules: ReplyRule[];
+    maxReplies?: number;
+    delaySeconds?: [number, number];
+}
+
+interface ReplyRecord {
+    commentId: string;
+    noteId?: string;
+    replyId?: string;
+    text: string;
+    repliedAt: string;
+}
+
+function readRepliedIds(): Set<string> {
+    if (!fs.existsSync(REPLIES_FILE)) return new Set();
+    const ids = new Set<string>();
+    for (const line of fs.readFileSync(REPLIES_FILE, 'utf-8').split('\n')) {
+        try {
+            if (line.trim()) ids.add((JSON.parse(line) as ReplyRecord).commentId);
+        } catch { }
+    }
+    return ids;
+}
+
+function recordReply(record: ReplyRecord): void {
+    fs.mkdirSync(AGENT_HOME, { recursive: true });
+    fs.appendFileSync(REPLIES_FILE, JSON.stringify(record) + '\n');
+}
+
+// ============================================================================
+// 读取评论
+// ============================================================================
+
+function parseComment(raw: any, repliedIds: Set<string>): CommentSummary | null {
+    // The inbox also lists @mentions and likes; only comments carry comment_info
+    const comment = raw?.comment_info;
+    if (!comment?.id || !String(raw.type ?? '').startsWith('comment')) return null;
+    const commentId = String(comment.id);
+    const time = raw.time ?? comment.create_time;
+    return {
+        commentId,
+        noteId: raw.item_info?.id ?? comment.note_id,
+        noteTitle: raw.item_info?.content || undefined,
+        author: { userId: raw.user_info?.userid ?? raw.user_info?.user_id, nickname: raw.user_info?.nickname },
+        text: comment.content ?? '',
+        time: typeof time === 'number' ? new Date(time < 1e12 ? time * 1000 : time).toISOString() : undefined,
+        replied: repliedIds.has(commentId) || !!(comment.replied ?? raw.replied),
+    };
+}
+
+// Collects inbox pages as the notification page loads them, in display order
+function watchComments(page: Page) {
+    const repliedIds = readRepliedIds();
+    const items: Array<CommentSummary | null> = [];
+    let responses = 0;
+    let exhausted = false;
+
+    const handler = async (response: Response) => {
+        if (!MENTIONS_API_PATTERN.test(response.url())) return;
+        try {
+            const data = (await response.json())?.data ?? {};
+            // Keep non-comment entries as placeholders so indexes match the rendered list
+            for (const raw of data.message_list ?? []) items.push(parseComment(raw, repliedIds));
+            if (data.has_more === false) exhausted = true;
+        } catch (e: any) {
+            log(`Failed to parse comment inbox response: ${e.message}`);
+        }
+        responses++;
+    };
+    page.on('response', handler);
+
+    return {
+        get comments(): CommentSummary[] {
+            return items.filter((c): c is CommentSummary => c !== null);
+        },
+        // Position of the comment among all rendered inbox entries
+        indexOf(commentId: string): number {
+            return items.findIndex(c => c?.commentId === commentId);
+        },
+        get exhausted(): boolean {
+            return exhausted;
+        },
+        get responseCount(): number {
+            return responses;
+        },
+        async waitForResponse(after: number, timeoutMs: number): Promise<boolean> {
+            const startTime = Date.now();
+            while (responses <= after && Date.now() - startTime < timeoutMs) {
+                await page.waitForTimeout(250);
+            }
+            return responses > after;
+        },
+        dispose() {
+            page.off('response', handler);
+        },
+    };
+}
+
+type CommentWatcher = ReturnType<typeof watchComments>;
+
+// Open the comment inbox and scroll until enough() holds or the inbox ends
+async function openInbox(page: Page, enough: (watcher: CommentWatcher) => boolean): Promise<CommentWatcher> {
+    const watcher = watchComments(page);
+    try {
+        await page.goto(notificationUrl(), { waitUntil: 'networkidle', timeout: 60000 });
+        if (await isOnLoginPage(page)) {
+            throw new Error('Not logged in to xiaohongshu.com, run the login command first');
+        }
+        const tab = await findVisible(page, 'commentsTab');
+        if (tab && watcher.responseCount === 0) await humanClick(page, tab.first());
+        await watcher.waitForResponse(0, NEXT_PAGE_TIMEOUT);
+
+        while (!watcher.exhausted && !enough(watcher)) {
+            const before = watcher.responseCount;
+            log(`Loaded ${watcher.comments.length} comments, scrolling for more...`);
+            await humanScroll(page, 4000);
+            if (!(await watcher.waitForResponse(before, NEXT_PAGE_TIMEOUT))) break;
+        }
+        return watcher;
+    } catch (e) {
+        watcher.dispose();
+        throw e;
+    }
+}
+
+export interface CommentsQuery {
+    limit: number;
+    since?: number;           // Epoch ms
+    unreplied?: boolean;
+}
+
+export async function listComments(page: Page, query: CommentsQuery): Promise<CommentSummary[]> {
+    const select = (comments: CommentSummary[]) => comments
+        .filter(c => query.since === undefined || (c.time !== undefined && new Date(c.time).getTime() >= query.since))
+        .filter(c => !query.unreplied || !c.replied);
+    const olderThanSince = (c: CommentSummary) => query.since !== undefined && c.time !== undefined && new Date(c.time).getTime() < query.since;
+
+    const watcher = await openInbox(page, w => select(w.comments).length >= query.limit || w.comments.some(olderThanSince));
+    watcher.dispose();
+    return select(watcher.comments).slice(0, query.limit);
+}
+
+// ============================================================================
+// 回复
+// ============================================================================
+
+async function sendReply(page: Page, watcher: CommentWatcher, comment: CommentSummary, text: string): Promise<string | undefined> {
+    const index = watcher.indexOf(comment.commentId);
+    let item = null;
+    for (const candidate of locators(page, 'commentItem')) {
+        if (await candidate.count().catch(() => 0) > index) {
+            item = candidate.nth(index);
+            break;
+        }
+    }
+    // Guard against the rendered list drifting from the API order
+    if (!item || (comment.text && !(await item.innerText()).includes(comment.text.slice(0, 20)))) {
+        throw new CommentReplyError(comment.commentId, `Comment ${comment.commentId} is not rendered where expected in the inbox`);
+    }
+
+    await item.scrollIntoViewIfNeeded();
+    await item.hover();
+    let clicked = false;
+    for (const button of locatorsIn(item, 'commentReplyButton')) {
+        if (await button.first().isVisible().catch(() => false)) {
+            await humanClick(page, button.first());
+            clicked = true;
+            break;
+        }
+    }
+    if (!clicked) throw new CommentReplyError(comment.commentId, 'Reply button not found');
+
+    const input = await findVisible(page, 'commentReplyInput', 5000);
+    if (!input) throw new CommentReplyError(comment.commentId, 'Reply input not found');
+    await humanType(page, input.first(), text);
+
+    let apiResult: { ok: boolean; replyId?: string; error?: string } | null = null;
+    const onResponse = async (response: Response) => {
+        if (response.request().method() !== 'POST' || !COMMENT_POST_API_PATTERN.test(response.url())) return;
+        try {
+            const body = await response.json();
+            apiResult = body?.success === false || (typeof body?.code === 'number' && body.code !== 0)
+                ? { ok: false, error: body.msg || `code ${body.code}` }
+                : { ok: true, replyId: body?.data?.comment?.id };
+        } catch {
+            apiResult = { ok: response.ok() };
+        }
+    };
+
+    page.on('response', onResponse);
+    try {
+        const send = await findVisible(page, 'commentSendButton');
+        if (send) {
+            await humanClick(page, send.first());
+        } else {
+            await input.first().press('Enter');
+        }
+
+        const startTime = Date.now();
+        while (!apiResult && Date.now() - startTime < REPLY_CONFIRM_TIMEOUT) {
+            await page.waitForTimeout(250);
+        }
+    } finally {
+        page.off('response', onResponse);
+    }
+
+    const result = apiResult as { ok: boolean; replyId?: string; error?: string } | null;
+    if (!result) throw new CommentReplyError(comment.commentId, 'Reply confirmation not detected');
+    if (!result.ok) throw new CommentReplyError(comment.commentId, `Reply rejected: ${result.error ?? 'unknown error'}`);
+
+    recordReply({ commentId: comment.commentId, noteId: comment.noteId, replyId: result.replyId, text, repliedAt: new Date().toISOString() });
+    log(`Replied to comment ${comment.commentId}`);
+    return result.replyId;
+}
+
+export async function replyToComment(page: Page, commentId: string, text: string): Promise<{ comment: CommentSummary; replyId?: string }> {
+    const watcher = await openInbox(page, w => w.indexOf(commentId) !== -1);
+    try {
+        const comment = watcher.comments.find(c => c.commentId === commentId);
+        if (!comment) throw new CommentReplyError(commentId, `Comment ${commentId} not found in the inbox`);
+        return { comment, replyId: await sendReply(page, watcher, comment, text) };
+    } finally {
+        watcher.dispose();
+    }
+}
+
+// ============================================================================
+// 自动回复
+// ============================================================================
+
+export function loadReplyRules(filePath: string): ReplyRuleFile {
+    let file: ReplyRuleFile;
+    try {
+        file = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (e: any) {
+        throw new Error(`Failed to read reply rules ${filePath}: ${e.message}`);
+    }
+    if (!Array.isArray(file?.rules) || file.rules.length === 0) {
+        throw new Error(`Reply rules ${filePath} must contain a non-empty "rules" array`);
+    }
+    file.rules.forEach((rule, i) => {
+        if (!Array.isArray(rule?.keywords) || rule.keywords.length === 0 || typeof rule.reply !== 'string' || !rule.reply.trim()) {
+            throw new Error(`Reply rule #${i + 1} needs non-empty "keywords" and "reply"`);
+        }
+    });
+    if (file.maxReplies !== undefined && !(Number.isInteger(file.maxReplies) && file.maxReplies > 0)) {
+        throw new Error('"maxReplies" must be a positive integer');
+    }
+    const delay = file.delaySeconds;
+    if (delay !== undefined && !(Array.isArray(delay) && delay.length === 2 && delay[0] >= 0 && delay[1] >= delay[0])) {
+        throw new Error('"delaySeconds" must be [min, max] with 0 <= min <= max');
+    }
+    return file;
+}
+
+export function matchRule(rules: ReplyRule[], comment: CommentSummary): number {
+    const text = comment.text.toLowerCase();
+    return rules.findIndex(rule => rule.keywords.some(keyword => text.includes(keyword.toLowerCase())));
+}
+
+const renderReply = (rule: ReplyRule, comment: CommentSummary) =>
+    rule.reply.replace(/\{author\}/g, comment.author.nickname ?? '');
+
+export async function autoReply(page: Page, ruleFile: ReplyRuleFile, options: { limit?: number; dryRun?: boolean }) {
+    const maxReplies = options.limit ?? ruleFile.maxReplies ?? DEFAULT_MAX_REPLIES;
+    const [minDelay, maxDelay] = ruleFile.delaySeconds ?? DEFAULT_REPLY_DELAY_SECONDS;
+
+    const matching = (w: CommentWatcher) => w.comments.filter(c => !c.replied && matchRule(ruleFile.rules, c) !== -1);
+    const watcher = await openInbox(page, w => matching(w).length >= maxReplies);
+    const replies = [];
+    try {
+        for (const comment of matching(watcher).slice(0, maxReplies)) {
+            const rule = matchRule(ruleFile.rules, comment);
+            const reply = renderReply(ruleFile.rules[rule], comment);
+            if (options.dryRun) {
+                replies.push({ commentId: comment.commentId, noteId: comment.noteId, rule, reply, status: 'planned' });
+                continue;
+            }
+
+            if (replies.length > 0) {
+                const delayMs = (minDelay + Math.random() * (maxDelay - minDelay)) * 1000;
+                log(`Waiting ${Math.round(delayMs / 1000)}s before the next reply...`);
+                await sleep(delayMs);
+            }
+            try {
+                const replyId = await sendReply(page, watcher, comment, reply);
+                replies.push({ commentId: comment.commentId, noteId: comment.noteId, rule, reply, status: 'sent', replyId });
+            } catch (e: any) {
+                log(`Failed to reply to comment ${comment.commentId}: ${e.message}`);
+                replies.push({ commentId: comment.commentId, noteId: comment.noteId, rule, reply, status: 'failed', error: e.message });
+            }
+        }
+    } finally {
+        watcher.dispose();
+    }
+
+    return { maxReplies, limitReached: matching(watcher).length > maxReplies, replies };
+}
+
+// ============================================================================
+// comments 命令
+// ============================================================================
+
+/**
+ * comments list [--account <id>] [--limit <n>] [--since <date>] [--unreplied]
+ * comments reply <commentId> --text <text> [--account <id>]
+ * comments auto-reply --rules <file> [--limit <n>] [--dry-run] [--account <id>]
+ */
+export async function runCommentsCommand(args: string[]): Promise<void> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            account: { type: 'string' },
+            limit: { type: 'string' },
+            since: { type: 'string' },
+            unreplied: { type: 'boolean' },
+            text: { type: 'string' },
+            rules: { type: 'string' },
+            'dry-run': { type: 'boolean' },
+        },
+    });
+    const [action = 'list', commentId] = positionals;
+
+    const limit = values.limit !== undefined ? Number(values.limit) : undefined;
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) throw new Error(`Invalid --limit: ${values.limit}`);
+    const since = values.since !== undefined ? new Date(values.since).getTime() : undefined;
+    if (since !== undefined && Number.isNaN(since)) throw new Error(`Invalid --since date: ${values.since}`);
+
+    // Validate arguments before connecting to the browser
+    let ruleFile: ReplyRuleFile | null = null;
+    if (action === 'reply' && (!commentId || !values.text?.trim())) {
+        throw new Error('Usage: comments reply <commentId> --text <text> [--account <id>]');
+    } else if (action === 'auto-reply') {
+        if (!values.rules) throw new Error('Usage: comments auto-reply --rules <file> [--limit <n>] [--dry-run] [--account <id>]');
+        ruleFile = loadReplyRules(values.rules);
+    } else if (action !== 'list' && action !== 'reply') {
+        throw new Error(`Unknown comments action: ${action}`);
+    }
+
+    const account = getAccount(values.account);
+    const browser = await connectCDP(account);
+    try {
+        const page = await getOrCreatePage(browser);
+        if (action === 'list') {
+            const comments = await listComments(page, { limit: limit ?? DEFAULT_LIST_LIMIT, since, unreplied: values.unreplied });
+            writeOutput({ type: 'comments', accountId: account.id, comments });
+        } else if (action === 'reply') {
+            writeOutput({ type: 'comment_reply', accountId: account.id, ...(await replyToComment(page, commentId, values.text!)) });
+        } else {
+            const outcome = await autoReply(page, ruleFile!, { limit, dryRun: values['dry-run'] });
+            writeOutput({ type: 'auto_reply', accountId: account.id, dryRun: !!values['dry-run'], ...outcome });
+        }
+    } finally {
+        await browser.close();
+    }
+}
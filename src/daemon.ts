@@ -0,0 +1,106 @@
+/**
+ * 常驻模式 (daemon)
+ *
+ * stdin 每行一个 JSON 消息，stdout 每行一个 JSON 回复：
+ * - publish  (缺省 type 时视为 publish): 入队并回复 { type: 'queued', state, position? }
+ *            (state 为 running 表示已立即开始)，完成后输出 { taskId, status, data }
+ * - cancel:   取消排队中的任务，或中止正在运行的任务 (结果以 status: 'cancelled' 输出)
+ * - ping:     返回队列状态
+ * - shutdown: 执行完已排队任务后退出 (force: true 则取消全部任务)
+ * SIGINT / SIGTERM 等同于 force shutdown。
+ */
+
+import * as readline from 'readline';
+import { log, writeOutput } from './logger';
+import { createTaskQueue } from './queue';
+import { PublishConfig } from './types';
+
+export type DaemonMessage =
+    | ({ type?: 'publish' } & PublishConfig)
+    | { type: 'cancel'; taskId: string }
+    | { type: 'ping'; id?: string }
+    | { type: 'shutdown'; force?: boolean };
+
+// Parse one stdin line; throws with the error reply's message when it is not a message object
+export function parseDaemonMessage(line: string): DaemonMessage {
+    let message: DaemonMessage;
+    try {
+        message = JSON.parse(line);
+    } catch (e: any) {
+        throw new Error(`Invalid JSON on stdin: ${e.message}`);
+    }
+    // null, arrays and primitives parse fine but are not messages
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+        throw new Error(`Invalid JSON on stdin: expected an object, got ${line.trim()}`);
+    }
+    return message;
+}
+
+export async function runDaemon(): Promise<void> {
+    const queue = createTaskQueue(writeOutput);
+    const rl = readline.createInterface({
+        input: process.stdin,
+        terminal: false
+    });
+
+    const onSignal = () => {
+        log("Signal received, cancelling all tasks...");
+        queue.cancelAll();
+        rl.close();
+    };
+    process.once('SIGINT', onSignal);
+    process.once('SIGTERM', onSignal);
+
+    log(`Daemon started (pid ${process.pid}), waiting for tasks on stdin...`);
+    writeOutput({ type: 'ready', pid: process.pid });
+
+    for await (const line of rl) {
+        if (!line.trim()) continue;
+
+        let message: DaemonMessage;
+        try {
+            message = parseDaemonMessage(line);
+        } catch (e: any) {
+            writeOutput({ type: 'error', message: e.message });
+            continue;
+        }
+
+        if (message.type === 'shutdown') {
+            if (message.force) {
+                queue.cancelAll();
+            }
+            break;
+        }
+
+        switch (message.type) {
+            case undefined:
+            case 'publish': {
+                const { type, ...config } = message;
+                try {
+                    const taskId = queue.enqueue(config);
+                    // A task that started right away has already left the queued list
+                    const status = queue.status();
+                    writeOutput(status.running === taskId
+                        ? { type: 'queued', taskId, state: 'running' }
+                        : { type: 'queued', taskId, state: 'queued', position: status.queued.indexOf(taskId) + 1 });
+                } catch (e: any) {
+                    writeOutput({ taskId: config.taskId, status: 'failed', data: { message: e.message } });
+                }
+                break;
+            }
+            case 'cancel':
+                writeOutput({ type: 'ack', command: 'cancel', taskId: message.taskId, result: queue.cancel(message.taskId) });
+                break;
+            case 'ping':
+                writeOutput({ type: 'pong', id: message.id, ...queue.status(), timestamp: new Date().toISOString() });
+                break;
+            default:
+                writeOutput({ type: 'error', message: `Unknown message type: ${(message as { type: string }).type}` });
+        }
+    }
+
+    log("Shutting down daemon, waiting for queued tasks to finish...");
+    await queue.drain();
+    await queue.close();
+    writeOutput({ type: 'shutdown' });
+}
@@ -0,0 +1,150 @@
+/**
+ * 失败诊断包
+ *
+ * 每个任务一个目录 (~/.auto-tauri/diagnostics/<taskId>_<时间>):
+ * - events.jsonl       本任务的结构化事件
+ * - console.jsonl      页面 console 错误/警告、未捕获异常、失败请求
+ * - NN_<stage>.png     每个阶段结束时的全页截图
+ * - final.png / page.html  结束时的页面截图和 HTML
+ * - trace.zip          Playwright trace (npx playwright show-trace trace.zip)
+ * - result.json        任务结果
+ * 默认仅在失败 / 未确认时保留，成功时删除。
+ */
+
+import { ConsoleMessage, Page, Request } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { onEvent } from './events';
+import { log } from './logger';
+import { AGENT_HOME } from './paths';
+import { DiagnosticsMode, PublishResult } from './types';
+
+export const DIAGNOSTICS_DIR = path.join(AGENT_HOME, 'diagnostics');
+
+// Bundles older than this are pruned when a new task starts
+const RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+
+export interface Diagnostics {
+    readonly dir: string | null;
+    // Start tracing and console capture on the publish page
+    attach(page: Page): Promise<void>;
+    // Capture the final page state and stop tracing; call before disconnecting
+    detach(): Promise<void>;
+    // Keep or drop the bundle depending on the result; adds diagnosticsPath to kept results
+    finish(result: PublishResult | null): void;
+}
+
+const DISABLED: Diagnostics = {
+    dir: null,
+    async attach() { },
+    async detach() { },
+    finish() { },
+};
+
+function pruneOldBundles(): void {
+    if (!fs.existsSync(DIAGNOSTICS_DIR)) return;
+    const cutoff = Date.now() - RETENTION_MS;
+    for (const name of fs.readdirSync(DIAGNOSTICS_DIR)) {
+        const bundle = path.join(DIAGNOSTICS_DIR, name);
+        try {
+            if (fs.statSync(bundle).mtimeMs < cutoff) fs.rmSync(bundle, { recursive: true, force: true });
+        } catch { }
+    }
+}
+
+export function createDiagnostics(taskId: string | undefined, mode: DiagnosticsMode = 'onFailure'): Diagnostics {
+    if (mode === 'off') return DISABLED;
+
+    pruneOldBundles();
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const dir = path.join(DIAGNOSTICS_DIR, `${(taskId ?? 'task').replace(/[^a-zA-Z0-9_-]/g, '_')}_${stamp}`);
+    fs.mkdirSync(dir, { recursive: true });
+
+    const append = (file: string, entry: object) => {
+        try {
+            fs.appendFileSync(path.join(dir, file), JSON.stringify(entry) + '\n');
+        } catch { }
+    };
+
+    let page: Page | null = null;
+    let tracing = false;
+    let screenshotCount = 0;
+    // Stage screenshots run alongside the flow; detach() waits for them
+    const pendingScreenshots: Promise<unknown>[] = [];
+
+    const unsubscribe = onEvent(event => {
+        if (event.taskId !== taskId) return;
+        append('events.jsonl', event);
+        if (event.event === 'stage_finished' && page && !page.isClosed()) {
+            const file = `${String(++screenshotCount).padStart(2, '0')}_${event.stage}${event.attempt ? `_${event.attempt}` : ''}${event.success ? '' : '_failed'}.png`;
+            pendingScreenshots.push(page.screenshot({ path: path.join(dir, file), fullPage: true }).catch(() => { }));
+        }
+    });
+
+    const onConsole = (message: ConsoleMessage) => {
+        if (message.type() === 'error' || message.type() === 'warning') {
+            append('console.jsonl', { timestamp: new Date().toISOString(), kind: 'console', level: message.type(), text: message.text(), location: message.location() });
+        }
+    };
+    const onPageError = (error: Error) =>
+        append('console.jsonl', { timestamp: new Date().toISOString(), kind: 'pageerror', text: error.message, stack: error.stack });
+    const onRequestFailed = (request: Request) =>
+        append('console.jsonl', { timestamp: new Date().toISOString(), kind: 'requestfailed', method: request.method(), url: request.url(), error: request.failure()?.errorText });
+
+    return {
+        dir,
+
+        async attach(target: Page): Promise<void> {
+            page = target;
+            page.on('console', onConsole);
+            page.on('pageerror', onPageError);
+            page.on('requestfailed', onRequestFailed);
+            try {
+                await page.context().tracing.start({ screenshots: true, snapshots: true, title: taskId });
+                tracing = true;
+            } catch (e: any) {
+                log(`Diagnostics: tracing unavailable (${e.message})`);
+            }
+        },
+
+        async detach(): Promise<void> {
+            if (!page) return;
+            const target = page;
+            page = null;
+            await Promise.all(pendingScreenshots);
+
+            try {
+                if (!target.isClosed()) {
+                    await target.screenshot({ path: path.join(dir, 'final.png'), fullPage: true });
+                    fs.writeFileSync(path.join(dir, 'page.html'), await target.content());
+                }
+            } catch (e: any) {
+                log(`Diagnostics: failed to capture final page state (${e.message})`);
+            }
+            if (tracing) {
+                try {
+                    await target.context().tracing.stop({ path: path.join(dir, 'trace.zip') });
+                } catch (e: any) {
+                    log(`Diagnostics: failed to save trace (${e.message})`);
+                }
+            }
+
+            target.off('console', onConsole);
+            target.off('pageerror', onPageError);
+            target.off('requestfailed', onRequestFailed);
+        },
+
+        finish(result: PublishResult | null): void {
+            unsubscribe();
+            if (mode === 'onFailure' && result?.status === 'success') {
+                fs.rmSync(dir, { recursive: true, force: true });
+                return;
+            }
+            if (result) {
+                result.data.diagnosticsPath = dir;
+                fs.writeFileSync(path.join(dir, 'result.json'), JSON.stringify(result, null, 2));
+            }
+            log(`Diagnostics saved to ${dir}`);
+        },
+    };
+}
@@ -0,0 +1,138 @@
+/**
+ * 进度事件协议
+ *
+ * 每个事件以一行 JSON 输出到 stderr (与 type: 'log' 日志并列)，
+ * 以 type: 'event' 区分，并携带 schemaVersion 和 taskId。
+ * 协议有不兼容变更时递增 EVENT_SCHEMA_VERSION。
+ */
+
+export const EVENT_SCHEMA_VERSION = 1;
+
+export type PublishStage =
+    | 'validation'
+    | 'image_processing'
+    | 'browser_connect'
+    | 'login_wait'
+    | 'upload'
+    | 'fill'
+    | 'settings'
+    | 'preview'
+    | 'draft_save'
+    | 'publish_attempt'
+    | 'confirmation';
+
+interface BaseEvent {
+    type: 'event';
+    schemaVersion: typeof EVENT_SCHEMA_VERSION;
+    taskId?: string;
+    timestamp: string;
+}
+
+export interface StageStartedEvent extends BaseEvent {
+    event: 'stage_started';
+    stage: PublishStage;
+    attempt?: number;
+}
+
+export interface StageFinishedEvent extends BaseEvent {
+    event: 'stage_finished';
+    stage: PublishStage;
+    attempt?: number;
+    success: boolean;
+    durationMs: number;
+    error?: string;
+}
+
+export interface UploadProgressEvent extends BaseEvent {
+    event: 'upload_progress';
+    index: number;      // 0-based file index
+    total: number;      // number of files in this upload
+    fileName: string;
+    percent: number;    // 0-100
+}
+
+export interface UploadErrorEvent extends BaseEvent {
+    event: 'upload_error';
+    index: number;
+    total: number;
+    fileName: string;
+    message: string;
+}
+
+export type LoginState = 'waiting_scan' | 'scanned' | 'expired' | 'confirmed' | 'timeout';
+
+export interface LoginQrCodeEvent extends BaseEvent {
+    event: 'login_qrcode';
+    image: string;          // data:image/png;base64,...
+    refreshCount: number;   // 0 for the first QR code, +1 after each expiry refresh
+}
+
+export interface LoginStateEvent extends BaseEvent {
+    event: 'login_state';
+    state: LoginState;
+}
+
+export interface WarningEvent extends BaseEvent {
+    event: 'warning';
+    code: string;
+    message: string;
+}
+
+export type AgentEvent =
+    | StageStartedEvent
+    | StageFinishedEvent
+    | UploadProgressEvent
+    | UploadErrorEvent
+    | LoginQrCodeEvent
+    | LoginStateEvent
+    | WarningEvent;
+
+// Distributes over the union so each payload keeps its own fields
+type EventPayload<E> = E extends BaseEvent ? Omit<E, keyof BaseEvent> : never;
+export type AgentEventPayload = EventPayload<AgentEvent>;
+
+export type EventListener = (event: AgentEvent) => void;
+
+const listeners = new Set<EventListener>();
+
+// Subscribe to all emitted events; returns an unsubscribe function
+export function onEvent(listener: EventListener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
+
+export function emitEvent(taskId: string | undefined, payload: AgentEventPayload): void {
+    const event = {
+        type: 'event',
+        schemaVersion: EVENT_SCHEMA_VERSION,
+        taskId,
+        timestamp: new Date().toISOString(),
+        ...payload,
+    } as AgentEvent;
+
+    console.error(JSON.stringify(event));
+    listeners.forEach(listener => listener(event));
+}
+
+export function emitWarning(taskId: string | undefined, code: string, message: string): void {
+    emitEvent(taskId, { event: 'warning', code, message });
+}
+
+// Wrap a stage with stage_started / stage_finished events (errors are re-thrown)
+export async function withStage<T>(
+    taskId: string | undefined,
+    stage: PublishStage,
+    fn: () => Promise<T>,
+    attempt?: number
+): Promise<T> {
+    const startTime = Date.now();
+    emitEvent(taskId, { event: 'stage_started', stage, attempt });
+    try {
+        const result = await fn();
+        emitEvent(taskId, { event: 'stage_finished', stage, attempt, success: true, durationMs: Date.now() - startTime });
+        return result;
+    } catch (e: any) {
+        emitEvent(taskId, { event: 'stage_finished', stage, attempt, success: false, durationMs: Date.now() - startTime, error: e.message });
+        throw e;
+    }
+}
@@ -0,0 +1,155 @@
+/**
+ * 拟人化交互
+ *
+ * 点击前沿曲线移动鼠标、逐字输入并随机停顿、分段滚动、固定等待随机化，
+ * 避免瞬间 fill / 坐标跳变 / 整数毫秒等待这类明显的自动化特征。
+ * 通过 PublishConfig.humanize 配置，XHS_AGENT_HUMANIZE=0 全局关闭 (快速测试)，
+ * 关闭后退回 Playwright 的直接 click / fill 和原始等待时长。
+ */
+
+import { Locator, Page } from 'playwright';
+import { HumanizeOptions } from './types';
+
+const DEFAULTS: Required<HumanizeOptions> = {
+    enabled: true,
+    typingDelayMs: [60, 180],
+    pauseFactor: [0.8, 1.6],
+};
+
+let active: Required<HumanizeOptions> = resolveOptions(undefined);
+
+// Last known pointer position per page; Playwright does not expose it
+const pointers = new WeakMap<Page, { x: number; y: number }>();
+
+const rand = (min: number, max: number) => min + Math.random() * (max - min);
+
+function resolveOptions(options: boolean | HumanizeOptions | undefined): Required<HumanizeOptions> {
+    const disabledByEnv = ['0', 'false', 'off'].includes((process.env.XHS_AGENT_HUMANIZE ?? '').toLowerCase());
+    const resolved = typeof options === 'boolean' ? { ...DEFAULTS, enabled: options } : { ...DEFAULTS, ...options };
+    return disabledByEnv ? { ...resolved, enabled: false } : resolved;
+}
+
+// Apply a task's settings; runPublish calls this before every task
+export function configureHumanize(options?: boolean | HumanizeOptions): void {
+    active = resolveOptions(options);
+}
+
+export function isHumanizeEnabled(): boolean {
+    return active.enabled;
+}
+
+// Wait about baseMs, scaled by a random factor within pauseFactor
+export async function pause(page: Page, baseMs: number): Promise<void> {
+    const [min, max] = active.pauseFactor;
+    await page.waitForTimeout(active.enabled ? Math.round(baseMs * rand(min, max)) : baseMs);
+}
+
+async function viewportSize(page: Page): Promise<{ width: number; height: number }> {
+    // CDP-attached pages of a real Chrome window have no fixed viewport
+    return page.viewportSize() ?? await page.evaluate(() => ({ width: window.innerWidth, height: window.innerHeight }));
+}
+
+// Move along a cubic Bézier curve with ease-in-out timing
+async function moveMouse(page: Page, x: number, y: number): Promise<void> {
+    let from = pointers.get(page);
+    if (!from) {
+        const { width, height } = await viewportSize(page);
+        from = { x: rand(0, width), y: rand(0, height) };
+    }
+
+    const distance = Math.hypot(x - from.x, y - from.y);
+    const spread = Math.min(distance * 0.3, 120);
+    const control = (t: number) => ({
+        x: from!.x + (x - from!.x) * t + rand(-spread, spread),
+        y: from!.y + (y - from!.y) * t + rand(-spread, spread),
+    });
+    const c1 = control(rand(0.2, 0.4));
+    const c2 = control(rand(0.6, 0.8));
+    const steps = Math.max(8, Math.min(40, Math.round(distance / 25)));
+
+    for (let i = 1; i <= steps; i++) {
+        const linear = i / steps;
+        const t = linear < 0.5 ? 2 * linear * linear : 1 - Math.pow(-2 * linear + 2, 2) / 2;
+        const u = 1 - t;
+        await page.mouse.move(
+            u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * x,
+            u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * y,
+        );
+        await page.waitForTimeout(rand(4, 14));
+    }
+    pointers.set(page, { x, y });
+}
+
+// Scroll with several small wheel steps instead of one jump
+export async function humanScroll(page: Page, deltaY: number): Promise<void> {
+    if (!active.enabled) {
+        await page.mouse.wheel(0, deltaY);
+        return;
+    }
+    let remaining = deltaY;
+    while (Math.abs(remaining) >= 1) {
+        const step = Math.sign(remaining) * Math.min(Math.abs(remaining), rand(60, 140));
+        await page.mouse.wheel(0, step);
+        remaining -= step;
+        await page.waitForTimeout(rand(15, 45));
+    }
+    await pause(page, 200);
+}
+
+async function scrollIntoView(page: Page, target: Locator): Promise<void> {
+    const box = await target.boundingBox();
+    if (!box) return;
+    const { height } = await viewportSize(page);
+    if (box.y >= 0 && box.y + box.height <= height) return;
+
+    await humanScroll(page, box.y - height * rand(0.3, 0.5));
+    // The wheel only moves the scroll container under the pointer
+    await target.scrollIntoViewIfNeeded();
+}
+
+export async function humanClick(page: Page, target: Locator): Promise<void> {
+    if (!active.enabled) {
+        await target.click();
+        return;
+    }
+
+    await target.waitFor({ state: 'visible' });
+    await scrollIntoView(page, target);
+    const box = await target.boundingBox();
+    if (!box) {
+        await target.click();
+        return;
+    }
+
+    await moveMouse(page, box.x + box.width * rand(0.3, 0.7), box.y + box.height * rand(0.3, 0.7));
+    await page.waitForTimeout(rand(60, 180));
+    await page.mouse.down();
+    await page.waitForTimeout(rand(40, 120));
+    await page.mouse.up();
+}
+
+/**
+ * 输入文本。target 为空时输入到当前焦点元素；否则先点击并清空 target。
+ */
+export async function humanType(page: Page, target: Locator | null, text: string): Promise<void> {
+    if (!active.enabled) {
+        if (target) {
+            await target.fill(text);
+        } else {
+            await page.keyboard.type(text);
+        }
+        return;
+    }
+
+    if (target) {
+        await humanClick(page, target);
+        await target.fill('');
+    }
+    const [min, max] = active.typingDelayMs;
+    for (const char of text) {
+        await page.keyboard.type(char);
+        // Longer hesitation at word and sentence boundaries
+        const boundary = /[\s,.!?，。！？、；;]/.test(char);
+        await page.waitForTimeout(rand(min, max) + (boundary ? rand(100, 400) : 0));
+    }
+}
@@ -0,0 +1,117 @@
+/**
+ * 图片格式识别
+ *
+ * 仅读取文件头 (magic bytes) 判断真实格式并解析宽高，不依赖原生图像库。
+ */
+
+import * as fs from 'fs';
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'heic' | 'bmp';
+
+export interface ImageInfo {
+    format: ImageFormat;
+    width?: number;
+    height?: number;
+}
+
+// JPEG 需要扫描到 SOF 段，读取前 256KB 足以覆盖绝大多数 EXIF 头
+const HEADER_BYTES = 256 * 1024;
+
+export const IMAGE_EXTENSIONS: Record<ImageFormat, string> = {
+    jpeg: 'jpg',
+    png: 'png',
+    gif: 'gif',
+    webp: 'webp',
+    heic: 'heic',
+    bmp: 'bmp',
+};
+
+export function detectImageFormat(buffer: Buffer): ImageFormat | null {
+    if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47 && buffer.readUInt32BE(4) === 0x0d0a1a0a) return 'png';
+    if (buffer.length >= 6 && buffer.toString('ascii', 0, 3) === 'GIF') return 'gif';
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') return 'webp';
+    if (buffer.length >= 2 && buffer.toString('ascii', 0, 2) === 'BM') return 'bmp';
+    if (buffer.length >= 12 && buffer.toString('ascii', 4, 8) === 'ftyp') {
+        const brand = buffer.toString('ascii', 8, 12);
+        if (['heic', 'heix', 'hevc', 'hevx', 'mif1', 'msf1', 'avif'].includes(brand)) return 'heic';
+    }
+    return null;
+}
+
+function jpegSize(buffer: Buffer): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+        if (buffer[offset] !== 0xff) {
+            offset++;
+            continue;
+        }
+        const marker = buffer[offset + 1];
+        // SOF0-SOF15 (excluding DHT 0xC4, JPG 0xC8, DAC 0xCC)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+        }
+        if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+            offset += 2;
+            continue;
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+    return null;
+}
+
+function webpSize(buffer: Buffer): { width: number; height: number } | null {
+    if (buffer.length < 30) return null;
+    const chunk = buffer.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+        return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+        const bits = buffer.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+        return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+}
+
+export function parseImageInfo(buffer: Buffer): ImageInfo | null {
+    const format = detectImageFormat(buffer);
+    if (!format) return null;
+
+    let size: { width: number; height: number } | null = null;
+    try {
+        switch (format) {
+            case 'jpeg':
+                size = jpegSize(buffer);
+                break;
+            case 'png':
+                size = buffer.length >= 24 ? { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) } : null;
+                break;
+            case 'gif':
+                size = buffer.length >= 10 ? { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) } : null;
+                break;
+            case 'webp':
+                size = webpSize(buffer);
+                break;
+            case 'bmp':
+                size = buffer.length >= 26 ? { width: buffer.readInt32LE(18), height: Math.abs(buffer.readInt32LE(22)) } : null;
+                break;
+        }
+    } catch {
+        // Truncated header: format is known, dimensions are not
+    }
+    return { format, ...size };
+}
+
+export function readImageInfo(filePath: string): ImageInfo | null {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(HEADER_BYTES);
+        const bytesRead = fs.readSync(fd, buffer, 0, HEADER_BYTES, 0);
+        return parseImageInfo(buffer.subarray(0, bytesRead));
+    } finally {
+        fs.closeSync(fd);
+    }
+}
@@ -0,0 +1,225 @@
+/**
+ * 发布记录 (ledger)
+ *
+ * ~/.auto-tauri/ledger.jsonl 追加写入，每次运行一条 running 记录、结束时再写一条最终记录
+ * (同一 runId 以最后一行为准)。进程中途退出时 running 记录会保留，视为"可能已发布"。
+ *
+ * - 幂等: 同一 taskId 已发布成功则直接返回原结果；上次结果不确定则拒绝，避免重复发笔记
+ * - 重复内容: 同账号发布过相同内容时警告 (duplicateContent: 'reject' 则拒绝)
+ * - 频率限制: 按账号的每日上限和最小发布间隔 (accounts limits 命令配置)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { parseArgs } from 'util';
+import { DEFAULT_ACCOUNT_ID, getAccount } from './accounts';
+import { writeOutput } from './logger';
+import { AGENT_HOME } from './paths';
+import { PublishConfig, PublishMode, PublishResult, PublishStatus } from './types';
+
+export const LEDGER_FILE = path.join(AGENT_HOME, 'ledger.jsonl');
+
+export interface LedgerEntry {
+    runId: string;
+    taskId?: string;
+    accountId: string;
+    mode: PublishMode;
+    contentHash: string;
+    title: string;
+    status: PublishStatus | 'running';
+    reason?: string;
+    noteId?: string;
+    noteUrl?: string;
+    // The publish button was clicked during this run
+    submitted?: boolean;
+    startedAt: string;
+    finishedAt?: string;
+}
+
+// Statuses after which the note may exist on the platform
+const MAY_BE_PUBLISHED: LedgerEntry['status'][] = ['success', 'unconfirmed', 'running'];
+
+// Any run that got as far as the publish click may have created the note, whatever its outcome
+const mayBePublished = (entry: LedgerEntry) => MAY_BE_PUBLISHED.includes(entry.status) || entry.submitted === true;
+
+// Title, text and media sources identify the note content (media is hashed by source, not bytes)
+export function contentHash(config: PublishConfig): string {
+    const media = config.videoPath ? [config.videoPath, config.coverPath ?? ''] : config.imagePaths?.length ? config.imagePaths : [config.imagePath ?? ''];
+    return crypto.createHash('sha256')
+        .update(JSON.stringify([config.title, config.content ?? '', config.topics ?? [], media]))
+        .digest('hex');
+}
+
+export function readLedger(): LedgerEntry[] {
+    if (!fs.existsSync(LEDGER_FILE)) return [];
+    const byRun = new Map<string, LedgerEntry>();
+    for (const line of fs.readFileSync(LEDGER_FILE, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            const entry: LedgerEntry = JSON.parse(line);
+            byRun.set(entry.runId, entry);
+        } catch { }
+    }
+    return [...byRun.values()];
+}
+
+function appendEntry(entry: LedgerEntry): void {
+    fs.mkdirSync(AGENT_HOME, { recursive: true });
+    fs.appendFileSync(LEDGER_FILE, JSON.stringify(entry) + '\n');
+}
+
+// ============================================================================
+// 发布前检查
+// ============================================================================
+
+export type LedgerCheck =
+    | { action: 'proceed'; warnings: string[] }
+    | { action: 'reuse'; entry: LedgerEntry }
+    | { action: 'reject'; reason: 'duplicate_task' | 'duplicate_content' | 'rate_limited'; message: string; retryAt?: string };
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+export function checkLedger(config: PublishConfig, now = new Date()): LedgerCheck {
+    const mode = config.mode ?? 'publish';
+    // Previews and drafts never create a note
+    if (mode !== 'publish') return { action: 'proceed', warnings: [] };
+
+    const accountId = config.accountId ?? DEFAULT_ACCOUNT_ID;
+    const published = readLedger().filter(e => e.mode === 'publish' && mayBePublished(e));
+
+    const previous = config.taskId ? published.filter(e => e.taskId === config.taskId) : [];
+    const succeeded = previous.find(e => e.status === 'success');
+    if (succeeded) return { action: 'reuse', entry: succeeded };
+    if (previous.length > 0) {
+        return {
+            action: 'reject',
+            reason: 'duplicate_task',
+            message: `Task ${config.taskId} was already submitted (${previous[0].status} at ${previous[0].startedAt}); check the creator center, then retry with a new taskId`,
+        };
+    }
+
+    const warnings: string[] = [];
+    const accountPosts = published.filter(e => e.accountId === accountId);
+    const sameContent = accountPosts.find(e => e.contentHash === contentHash(config));
+    if (sameContent) {
+        const message = `The same content was already published on ${sameContent.startedAt}${sameContent.noteId ? ` (note ${sameContent.noteId})` : ''}`;
+        if (config.duplicateContent === 'reject') {
+            return { action: 'reject', reason: 'duplicate_content', message };
+        }
+        warnings.push(message);
+    }
+
+    const limits = getAccount(accountId).limits ?? {};
+    if (limits.dailyCap) {
+        const today = startOfDay(now).getTime();
+        const postedToday = accountPosts.filter(e => new Date(e.startedAt).getTime() >= today).length;
+        if (postedToday >= limits.dailyCap) {
+            const tomorrow = new Date(today + 24 * 60 * 60 * 1000);
+            return {
+                action: 'reject',
+                reason: 'rate_limited',
+                message: `Daily cap of ${limits.dailyCap} notes reached for account ${accountId}`,
+                retryAt: startOfDay(tomorrow).toISOString(),
+            };
+        }
+    }
+    if (limits.minIntervalMinutes) {
+        const last = Math.max(0, ...accountPosts.map(e => new Date(e.startedAt).getTime()));
+        const nextAllowed = last + limits.minIntervalMinutes * 60 * 1000;
+        if (nextAllowed > now.getTime()) {
+            return {
+                action: 'reject',
+                reason: 'rate_limited',
+                message: `Account ${accountId} must wait ${limits.minIntervalMinutes} minutes between notes`,
+                retryAt: new Date(nextAllowed).toISOString(),
+            };
+        }
+    }
+
+    return { action: 'proceed', warnings };
+}
+
+// ============================================================================
+// 记录
+// ============================================================================
+
+export interface LedgerRun {
+    // result is null when the task threw instead of returning one
+    finish(result: PublishResult | null, submitted: boolean): void;
+}
+
+// Write the running entry now; finish() writes the outcome for the same run
+export function recordRun(config: PublishConfig): LedgerRun {
+    const entry: LedgerEntry = {
+        runId: crypto.randomUUID(),
+        taskId: config.taskId,
+        accountId: config.accountId ?? DEFAULT_ACCOUNT_ID,
+        mode: config.mode ?? 'publish',
+        contentHash: contentHash(config),
+        title: config.title,
+        status: 'running',
+        startedAt: new Date().toISOString(),
+    };
+    appendEntry(entry);
+
+    return {
+        finish(result: PublishResult | null, submitted: boolean): void {
+            appendEntry({
+                ...entry,
+                status: result?.status ?? 'failed',
+                reason: result ? result.data.reason : 'error',
+                noteId: result?.data.noteId,
+                noteUrl: result?.data.noteUrl,
+                ...(submitted ? { submitted } : {}),
+                finishedAt: new Date().toISOString(),
+            });
+        },
+    };
+}
+
+// ============================================================================
+// history 命令
+// ============================================================================
+
+/**
+ * history [--account <id>] [--task <taskId>] [--status <status>] [--mode <mode>]
+ *         [--since <date>] [--until <date>] [--limit <n>]
+ * 按开始时间倒序输出发布记录。
+ */
+export function runHistoryCommand(args: string[]): void {
+    const { values } = parseArgs({
+        args,
+        options: {
+            account: { type: 'string' },
+            task: { type: 'string' },
+            status: { type: 'string' },
+            mode: { type: 'string' },
+            since: { type: 'string' },
+            until: { type: 'string' },
+            limit: { type: 'string' },
+        },
+    });
+
+    const parseDate = (flag: string, raw?: string) => {
+        if (raw === undefined) return undefined;
+        const time = new Date(raw).getTime();
+        if (Number.isNaN(time)) throw new Error(`Invalid --${flag} date: ${raw}`);
+        return time;
+    };
+    const since = parseDate('since', values.since);
+    const until = parseDate('until', values.until);
+    const limit = values.limit !== undefined ? Number(values.limit) : 50;
+    if (!Number.isInteger(limit) || limit < 1) throw new Error(`Invalid --limit: ${values.limit}`);
+
+    const entries = readLedger()
+        .filter(e => !values.account || e.accountId === values.account)
+        .filter(e => !values.task || e.taskId === values.task)
+        .filter(e => !values.status || e.status === values.status)
+        .filter(e => !values.mode || e.mode === values.mode)
+        .filter(e => since === undefined || new Date(e.startedAt).getTime() >= since)
+        .filter(e => until === undefined || new Date(e.startedAt).getTime() <= until)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+    writeOutput({ type: 'history', total: entries.length, entries: entries.slice(0, limit) });
+}
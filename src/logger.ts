@@ -0,0 +1,14 @@
+/**
+ * 日志与输出辅助函数
+ *
+ * - stderr: 结构化日志 (JSON Lines)
+ * - stdout: 任务结果 (JSON Lines)
+ */
+
+// Helper for logging
+export const log = (msg: string) => console.error(JSON.stringify({ type: 'log', message: `[XHS Agent] ${msg}`, timestamp: new Date().toISOString() }));
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Write a single JSON line to stdout (task results / daemon replies)
+export const writeOutput = (payload: object) => console.log(JSON.stringify(payload));
@@ -0,0 +1,196 @@
+/**
+ * 扫码登录
+ *
+ * 检测创作中心登录页，截取二维码并以事件形式发给调用方渲染，
+ * 跟踪 待扫码 / 已扫码 / 已过期 (自动刷新) / 已确认 等状态。
+ */
+
+import { Page, Response } from 'playwright';
+import { parseArgs } from 'util';
+import { getAccount } from './accounts';
+import { connectCDP, getOrCreatePage } from './browser';
+import { emitEvent, LoginState } from './events';
+import { humanClick } from './humanize';
+import { log, writeOutput } from './logger';
+import { findVisible, findVisibleText, locators } from './selectors';
+import { homeUrl } from './urls';
+
+// 默认扫码等待时间
+export const DEFAULT_LOGIN_TIMEOUT = 120 * 1000;
+
+// 创作中心用户信息接口
+const USER_INFO_API_PATTERN = /\/api\/galaxy\/user\/info/;
+
+export class LoginTimeoutError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LoginTimeoutError';
+    }
+}
+
+export interface LoginStatus {
+    loggedIn: boolean;
+    url: string;
+    userId?: string;
+    userName?: string;
+}
+
+export async function isOnLoginPage(page: Page): Promise<boolean> {
+    if (page.url().includes('/login')) return true;
+    return (await findVisible(page, 'qrCode')) !== null;
+}
+
+// Returns the QR code as a data URI, switching the login form to QR mode if needed
+async function captureQrCode(page: Page): Promise<string | null> {
+    for (let pass = 0; pass < 2; pass++) {
+        for (const candidate of locators(page, 'qrCode')) {
+            const qr = candidate.first();
+            try {
+                if (!(await qr.isVisible())) continue;
+                const src = await qr.getAttribute('src');
+                if (src?.startsWith('data:image')) return src;
+                const buffer = await qr.screenshot();
+                return `data:image/png;base64,${buffer.toString('base64')}`;
+            } catch { }
+        }
+
+        const toggle = pass === 0 ? await findVisible(page, 'qrSwitch') : null;
+        if (toggle) {
+            log("Switching login form to QR code mode...");
+            await humanClick(page, toggle.first());
+            await page.waitForTimeout(1000);
+        }
+    }
+    return null;
+}
+
+async function refreshQrCode(page: Page): Promise<void> {
+    const refreshText = await findVisibleText(page, 'qrRefresh');
+    if (refreshText) {
+        await humanClick(page, page.getByText(refreshText).first());
+    } else {
+        // Some versions only refresh by clicking the expired QR code itself
+        await page.reload({ waitUntil: 'networkidle' });
+    }
+    await page.waitForTimeout(1500);
+}
+
+/**
+ * 等待用户扫码登录，直到离开登录页或超时。
+ * 二维码变化时发送 login_qrcode 事件，状态变化时发送 login_state 事件。
+ */
+export async function waitForLogin(page: Page, taskId: string | undefined, timeoutMs = DEFAULT_LOGIN_TIMEOUT): Promise<void> {
+    const startTime = Date.now();
+    let lastQrCode: string | null = null;
+    let lastState: LoginState | null = null;
+    let refreshCount = 0;
+
+    const setState = (state: LoginState) => {
+        if (state === lastState) return;
+        lastState = state;
+        log(`Login state: ${state}`);
+        emitEvent(taskId, { event: 'login_state', state });
+    };
+
+    log("Login required, waiting for QR code scan...");
+    while (await isOnLoginPage(page)) {
+        if (Date.now() - startTime > timeoutMs) {
+            setState('timeout');
+            throw new LoginTimeoutError(`Timeout waiting for login after ${Math.round(timeoutMs / 1000)}s`);
+        }
+
+        if (await findVisibleText(page, 'qrExpired')) {
+            setState('expired');
+            await refreshQrCode(page);
+            refreshCount++;
+            lastQrCode = null;
+            continue;
+        }
+
+        if (await findVisibleText(page, 'qrScanned')) {
+            setState('scanned');
+        } else {
+            const qrCode = await captureQrCode(page);
+            if (qrCode && qrCode !== lastQrCode) {
+                lastQrCode = qrCode;
+                emitEvent(taskId, { event: 'login_qrcode', image: qrCode, refreshCount });
+            }
+            setState('waiting_scan');
+        }
+
+        await page.waitForTimeout(1500);
+    }
+
+    setState('confirmed');
+}
+
+// Open the creator center home page and report whether the session is still valid
+export async function checkLoginStatus(page: Page): Promise<LoginStatus> {
+    let userInfo: { userId?: string; userName?: string } = {};
+    const onResponse = async (response: Response) => {
+        if (!USER_INFO_API_PATTERN.test(response.url())) return;
+        try {
+            const body = await response.json();
+            const data = body?.data ?? {};
+            userInfo = {
+                userId: data.userId ?? data.user_id ?? data.redId,
+                userName: data.userName ?? data.nickname ?? data.name,
+            };
+        } catch { }
+    };
+
+    page.on('response', onResponse);
+    try {
+        await page.goto(homeUrl(), { waitUntil: 'networkidle', timeout: 60000 });
+        const loggedIn = !(await isOnLoginPage(page));
+        return { loggedIn, url: page.url(), ...(loggedIn ? userInfo : {}) };
+    } finally {
+        page.off('response', onResponse);
+    }
+}
+
+// ============================================================================
+// login / check-login 命令
+// ============================================================================
+
+function parseLoginArgs(args: string[]) {
+    const { values } = parseArgs({
+        args,
+        options: {
+            account: { type: 'string' },
+            timeout: { type: 'string' },
+        },
+    });
+    const timeoutSeconds = values.timeout !== undefined ? Number(values.timeout) : null;
+    if (timeoutSeconds !== null && (!Number.isFinite(timeoutSeconds) || timeoutSeconds <= 0)) {
+        throw new Error(`Invalid --timeout: ${values.timeout}`);
+    }
+    return {
+        account: getAccount(values.account),
+        timeoutMs: timeoutSeconds !== null ? timeoutSeconds * 1000 : DEFAULT_LOGIN_TIMEOUT,
+    };
+}
+
+/**
+ * login [--account <id>] [--timeout <seconds>]
+ * check-login [--account <id>]
+ */
+export async function runLoginCommand(command: 'login' | 'check-login', args: string[]): Promise<boolean> {
+    const { account, timeoutMs } = parseLoginArgs(args);
+    const browser = await connectCDP(account);
+
+    try {
+        const page = await getOrCreatePage(browser);
+        let status = await checkLoginStatus(page);
+
+        if (command === 'login' && !status.loggedIn) {
+            await waitForLogin(page, undefined, timeoutMs);
+            status = await checkLoginStatus(page);
+        }
+
+        writeOutput({ type: command === 'login' ? 'login' : 'login_status', accountId: account.id, ...status });
+        return status.loggedIn;
+    } finally {
+        await browser.close();
+    }
+}
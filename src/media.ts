@@ -0,0 +1,421 @@
+/**
+ * 媒体源解析
+ *
+ * 将本地路径、file:// / http(s) URL 和 data URI 统一解析为可上传的本地文件。
+ * - 下载跟随重定向，并限制耗时和大小，失败时不留下残缺文件
+ * - 图片格式以文件头 (magic bytes) 为准，扩展名随之修正
+ * - 图片按内容哈希缓存在 ~/.auto-tauri/cache/images，跨任务复用；同一 URL 超过一天会重新下载
+ * - 视频等临时文件写入每个任务独立的 auto-tauri-xhs 子目录，任务结束后删除
+ */
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as http from 'http';
+import * as https from 'https';
+import * as crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { detectImageFormat, IMAGE_EXTENSIONS } from './imageInfo';
+import { log } from './logger';
+import { AGENT_HOME } from './paths';
+import { PublishConfig } from './types';
+
+const VIDEO_EXTENSIONS: Record<string, string> = {
+    'mp4': 'mp4',
+    'quicktime': 'mov',
+    'x-msvideo': 'avi',
+    'x-matroska': 'mkv',
+    'webm': 'webm',
+};
+
+export const TMP_ROOT = path.join(os.tmpdir(), 'auto-tauri-xhs');
+export const IMAGE_CACHE_DIR = path.join(AGENT_HOME, 'cache', 'images');
+// URL -> cached file name, so repeated tasks skip the download entirely
+const URL_INDEX_FILE = path.join(IMAGE_CACHE_DIR, 'urls.json');
+
+const DOWNLOAD_TIMEOUT = 60 * 1000;
+const VIDEO_DOWNLOAD_TIMEOUT = 30 * 60 * 1000;
+const MAX_REDIRECTS = 5;
+// Larger than the platform limit so oversized images still reach validation with a clear message
+const MAX_IMAGE_DOWNLOAD_BYTES = 50 * 1024 * 1024;
+const MAX_VIDEO_DOWNLOAD_BYTES = 20 * 1024 * 1024 * 1024;
+// Cached images not used for this long are pruned
+const CACHE_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+// URLs are downloaded again after this long in case the remote image changed
+const URL_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// 临时目录
+// ============================================================================
+
+export function createTaskTempDir(taskId?: string): string {
+    fs.mkdirSync(TMP_ROOT, { recursive: true });
+    const prefix = (taskId ?? 'task').replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 40);
+    return fs.mkdtempSync(path.join(TMP_ROOT, `${prefix}-`));
+}
+
+export function removeTaskTempDir(tmpDir: string): void {
+    try {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    } catch (e: any) {
+        log(`Failed to remove temp dir ${tmpDir}: ${e.message}`);
+    }
+}
+
+// ============================================================================
+// 下载
+// ============================================================================
+
+interface DownloadOptions {
+    maxBytes: number;
+    timeoutMs: number;
+}
+
+interface DownloadResult {
+    sha256: string;
+    contentType?: string;
+    // URL after following redirects
+    finalUrl: string;
+}
+
+function requestOnce(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+    const client = url.protocol === 'http:' ? http : https;
+    return new Promise((resolve, reject) => {
+        const request = client.get(url, { signal }, resolve);
+        request.on('error', reject);
+    });
+}
+
+// Download url to dest, following redirects and enforcing size / time limits.
+// dest only exists afterwards if the download completed.
+async function downloadFile(source: string, dest: string, options: DownloadOptions): Promise<DownloadResult> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+    const hash = crypto.createHash('sha256');
+
+    try {
+        let url = new URL(source);
+        let response: http.IncomingMessage;
+        for (let redirects = 0; ; redirects++) {
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+                throw new Error(`Unsupported URL protocol: ${url.protocol}`);
+            }
+            response = await requestOnce(url, controller.signal);
+            const status = response.statusCode ?? 0;
+            if (status < 300 || status >= 400) break;
+
+            response.resume();
+            const location = response.headers.location;
+            if (!location) throw new Error(`Redirect ${status} without Location header`);
+            if (redirects >= MAX_REDIRECTS) throw new Error(`Too many redirects (>${MAX_REDIRECTS})`);
+            url = new URL(location, url);
+        }
+
+        if (response.statusCode !== 200) {
+            response.resume();
+            throw new Error(`HTTP ${response.statusCode} ${response.statusMessage ?? ''}`.trim());
+        }
+
+        const declaredLength = Number(response.headers['content-length']);
+        if (declaredLength > options.maxBytes) {
+            response.resume();
+            throw new Error(`File is too large (${declaredLength} bytes, limit ${options.maxBytes})`);
+        }
+
+        await new Promise<void>((resolve, reject) => {
+            const file = fs.createWriteStream(dest);
+            let received = 0;
+            let failed = false;
+            const fail = (err: Error) => {
+                if (failed) return;
+                failed = true;
+                reject(err);
+                response.destroy();
+                file.destroy();
+            };
+
+            response.on('data', (chunk: Buffer) => {
+                received += chunk.length;
+                if (received > options.maxBytes) {
+                    fail(new Error(`File is too large (over ${options.maxBytes} bytes)`));
+                    return;
+                }
+                hash.update(chunk);
+            });
+            response.on('error', fail);
+            response.on('aborted', () => fail(new Error('Connection closed before download completed')));
+            file.on('error', fail);
+            file.on('finish', () => resolve());
+            response.pipe(file);
+        });
+
+        return { sha256: hash.digest('hex'), contentType: response.headers['content-type'], finalUrl: url.toString() };
+    } catch (e: any) {
+        fs.rmSync(dest, { force: true });
+        if (controller.signal.aborted) {
+            throw new Error(`Download timed out after ${Math.round(options.timeoutMs / 1000)}s`);
+        }
+        throw e;
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// ============================================================================
+// 图片缓存
+// ============================================================================
+
+interface UrlIndexEntry {
+    file: string;
+    fetchedAt: number;
+}
+
+function readUrlIndex(): Record<string, UrlIndexEntry> {
+    try {
+        const index = JSON.parse(fs.readFileSync(URL_INDEX_FILE, 'utf-8'));
+        // Entries from older versions (plain file names) have no fetch time and are dropped
+        return Object.fromEntries(Object.entries(index).filter(([, entry]: [string, any]) => typeof entry?.file === 'string')) as Record<string, UrlIndexEntry>;
+    } catch {
+        return {};
+    }
+}
+
+function rememberUrl(url: string, fileName: string): void {
+    const index = readUrlIndex();
+    index[url] = { file: fileName, fetchedAt: Date.now() };
+    fs.writeFileSync(URL_INDEX_FILE, JSON.stringify(index, null, 2));
+}
+
+// Cache hits count as use, so pruning only removes images no task has needed recently
+function touchCacheFile(filePath: string): void {
+    const now = new Date();
+    fs.utimesSync(filePath, now, now);
+}
+
+function cachedFileForUrl(url: string): string | null {
+    const entry = readUrlIndex()[url];
+    if (!entry || Date.now() - entry.fetchedAt > URL_CACHE_TTL) return null;
+    const cached = path.join(IMAGE_CACHE_DIR, entry.file);
+    if (!fs.existsSync(cached)) return null;
+    touchCacheFile(cached);
+    return cached;
+}
+
+function sniffImageExtension(filePath: string): string {
+    const fd = fs.openSync(filePath, 'r');
+    try {
+        const header = Buffer.alloc(32);
+        const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+        const format = detectImageFormat(header.subarray(0, bytesRead));
+        if (!format) throw new Error('Content is not a supported image (unrecognized file header)');
+        return IMAGE_EXTENSIONS[format];
+    } finally {
+        fs.closeSync(fd);
+    }
+}
+
+// Move a finished file into the cache as <sha256>.<real extension>
+function storeInCache(filePath: string, sha256: string): string {
+    const cached = path.join(IMAGE_CACHE_DIR, `${sha256}.${sniffImageExtension(filePath)}`);
+    if (fs.existsSync(cached)) {
+        fs.rmSync(filePath, { force: true });
+        touchCacheFile(cached);
+    } else {
+        fs.renameSync(filePath, cached);
+    }
+    return cached;
+}
+
+function writeToCache(buffer: Buffer): string {
+    const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+    const format = detectImageFormat(buffer);
+    if (!format) throw new Error('Content is not a supported image (unrecognized file header)');
+
+    const cached = path.join(IMAGE_CACHE_DIR, `${sha256}.${IMAGE_EXTENSIONS[format]}`);
+    if (fs.existsSync(cached)) {
+        touchCacheFile(cached);
+    } else {
+        fs.writeFileSync(cached, buffer);
+    }
+    return cached;
+}
+
+// Drop cached images that no task has used recently
+export function pruneImageCache(maxAgeMs = CACHE_MAX_AGE): void {
+    if (!fs.existsSync(IMAGE_CACHE_DIR)) return;
+    const cutoff = Date.now() - maxAgeMs;
+    let removed = 0;
+
+    try {
+        for (const fileName of fs.readdirSync(IMAGE_CACHE_DIR)) {
+            const filePath = path.join(IMAGE_CACHE_DIR, fileName);
+            if (filePath === URL_INDEX_FILE) continue;
+            if (fs.statSync(filePath).mtimeMs < cutoff) {
+                fs.rmSync(filePath, { force: true });
+                removed++;
+            }
+        }
+
+        if (removed > 0) {
+            const kept = Object.fromEntries(Object.entries(readUrlIndex()).filter(([, entry]) => fs.existsSync(path.join(IMAGE_CACHE_DIR, entry.file))));
+            fs.writeFileSync(URL_INDEX_FILE, JSON.stringify(kept, null, 2));
+            log(`Pruned ${removed} cached image(s)`);
+        }
+    } catch (e: any) {
+        log(`Failed to prune image cache: ${e.message}`);
+    }
+}
+
+// ============================================================================
+// 图片源
+// ============================================================================
+
+const DATA_URI_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*),(.*)$/s;
+
+// Each %XX escape is one byte; other characters are taken as UTF-8
+function percentDecode(data: string): Buffer {
+    return Buffer.concat(data.split(/(%[0-9a-fA-F]{2})/).map(part =>
+        /^%[0-9a-fA-F]{2}$/.test(part) ? Buffer.from([parseInt(part.slice(1), 16)]) : Buffer.from(part, 'utf-8')));
+}
+
+export function decodeDataUri(source: string): Buffer {
+    const matches = source.match(DATA_URI_PATTERN);
+    if (!matches) throw new Error('Invalid data URI');
+    const isBase64 = matches[2].split(';').includes('base64');
+    return isBase64 ? Buffer.from(matches[3], 'base64') : percentDecode(matches[3]);
+}
+
+// file:// URLs become plain paths; anything else is returned unchanged
+export function toLocalPath(source: string): string {
+    return source.startsWith('file://') ? fileURLToPath(source) : source;
+}
+
+const isRemote = (source: string) => /^https?:\/\//i.test(source);
+
+// 将图片源 (本地路径 / file:// / URL / data URI) 解析为本地文件路径
+export async function resolveImageSource(sourcePath: string, i: number): Promise<string> {
+    fs.mkdirSync(IMAGE_CACHE_DIR, { recursive: true });
+
+    if (isRemote(sourcePath)) {
+        const cached = cachedFileForUrl(sourcePath);
+        if (cached) {
+            log(`Image ${i + 1} served from cache: ${path.basename(cached)}`);
+            return cached;
+        }
+
+        const partial = path.join(IMAGE_CACHE_DIR, `download_${process.pid}_${Date.now()}_${i}.part`);
+        try {
+            const { sha256, finalUrl } = await downloadFile(sourcePath, partial, { maxBytes: MAX_IMAGE_DOWNLOAD_BYTES, timeoutMs: DOWNLOAD_TIMEOUT });
+            const cachedPath = storeInCache(partial, sha256);
+            rememberUrl(sourcePath, path.basename(cachedPath));
+            log(`Downloaded image ${i + 1}${finalUrl !== sourcePath ? ` (redirected to ${finalUrl.substring(0, 80)})` : ''}`);
+            return cachedPath;
+        } catch (e: any) {
+            fs.rmSync(partial, { force: true });
+            throw new Error(`Failed to download image ${i + 1}: ${e.message}`);
+        }
+    }
+
+    if (sourcePath.startsWith('data:')) {
+        try {
+            const cachedPath = writeToCache(decodeDataUri(sourcePath));
+            log(`Saved data URI image ${i + 1} to: ${cachedPath}`);
+            return cachedPath;
+        } catch (e: any) {
+            throw new Error(`Failed to process data URI image ${i + 1}: ${e.message}`);
+        }
+    }
+
+    const localPath = toLocalPath(sourcePath);
+    if (!fs.existsSync(localPath)) {
+        throw new Error(`Image file not found: ${localPath}`);
+    }
+
+    // Local files keep their path unless the extension hides a different format
+    // (unrecognized content is left for validation to report)
+    const ext = path.extname(localPath).replace('.', '').toLowerCase();
+    let realExt: string;
+    try {
+        realExt = sniffImageExtension(localPath);
+    } catch {
+        return localPath;
+    }
+    if (ext === realExt || (ext === 'jpeg' && realExt === 'jpg')) {
+        return localPath;
+    }
+    log(`Image ${i + 1} is really .${realExt} (named .${ext || 'none'}), using a cached copy`);
+    return writeToCache(fs.readFileSync(localPath));
+}
+
+// Support both imagePaths (array) and imagePath (single) for backward compatibility
+export async function resolveImageSources(config: PublishConfig): Promise<string[]> {
+    let sourceImagePaths: string[] = [];
+    if (config.imagePaths && config.imagePaths.length > 0) {
+        sourceImagePaths = config.imagePaths;
+        log(`Processing ${sourceImagePaths.length} images from imagePaths array`);
+    } else if (config.imagePath) {
+        sourceImagePaths = [config.imagePath];
+        log(`Using single imagePath`);
+    } else {
+        throw new Error("Image path is required for XHS publish. Please provide imagePaths, imagePath or videoPath.");
+    }
+
+    // Process all images (download URLs, decode data URIs, etc.)
+    const actualImagePaths: string[] = [];
+    for (let i = 0; i < sourceImagePaths.length; i++) {
+        const sourcePath = sourceImagePaths[i];
+        log(`Processing image ${i + 1}/${sourceImagePaths.length}: ${sourcePath.substring(0, 50)}...`);
+        actualImagePaths.push(await resolveImageSource(sourcePath, i));
+    }
+
+    log(`All ${actualImagePaths.length} images processed successfully`);
+    return actualImagePaths;
+}
+
+// ============================================================================
+// 视频源
+// ============================================================================
+
+function videoExtension(url: string, contentType?: string): string {
+    const mime = contentType?.match(/^video\/([a-zA-Z0-9.+-]+)/)?.[1];
+    if (mime && VIDEO_EXTENSIONS[mime]) return VIDEO_EXTENSIONS[mime];
+    const urlExt = path.extname(new URL(url).pathname).replace('.', '').toLowerCase();
+    return Object.values(VIDEO_EXTENSIONS).includes(urlExt) ? urlExt : 'mp4';
+}
+
+async function downloadVideo(url: string, tmpDir: string): Promise<string> {
+    const partial = path.join(tmpDir, `publish_video_${Date.now()}.part`);
+    const { contentType, finalUrl } = await downloadFile(url, partial, { maxBytes: MAX_VIDEO_DOWNLOAD_BYTES, timeoutMs: VIDEO_DOWNLOAD_TIMEOUT });
+    const dest = partial.replace(/\.part$/, `.${videoExtension(finalUrl, contentType)}`);
+    fs.renameSync(partial, dest);
+    return dest;
+}
+
+// 将视频源 (本地路径 / file:// / URL / data URI) 解析为本地文件路径
+export async function resolveVideoSource(source: string, tmpDir: string): Promise<string> {
+    let actualPath = toLocalPath(source);
+
+    if (isRemote(source)) {
+        try {
+            actualPath = await downloadVideo(source, tmpDir);
+            log(`Downloaded video to: ${actualPath}`);
+        } catch (e: any) {
+            throw new Error(`Failed to download video: ${e.message}`);
+        }
+    } else if (source.startsWith('data:video')) {
+        const matches = source.match(/^data:video\/([a-zA-Z0-9.+-]+);base64,(.+)$/s);
+        if (!matches || matches.length !== 3) {
+            throw new Error('Invalid Base64 video format');
+        }
+
+        const ext = VIDEO_EXTENSIONS[matches[1]] || 'mp4';
+        actualPath = path.join(tmpDir, `publish_base64_video_${Date.now()}.${ext}`);
+        fs.writeFileSync(actualPath, Buffer.from(matches[2], 'base64'));
+        log(`Saved Base64 video to: ${actualPath}`);
+    }
+
+    if (!fs.existsSync(actualPath)) {
+        throw new Error(`Video file not found: ${actualPath}`);
+    }
+    return actualPath;
+}
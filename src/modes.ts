@@ -0,0 +1,68 @@
+/**
+ * 非发布模式
+ *
+ * - dryRun: 上传并填写完成后截取编辑器全页截图，不点击发布
+ * - draft:  使用创作中心的暂存功能保存草稿并确认保存成功
+ */
+
+import { Page, Response } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { humanClick } from './humanize';
+import { log } from './logger';
+import { AGENT_HOME } from './paths';
+import { findVisible, findVisibleText } from './selectors';
+
+export const SCREENSHOTS_DIR = path.join(AGENT_HOME, 'screenshots');
+
+const DRAFT_API_PATTERN = /\/web_api\/sns\/v\d+\/note\/draft|\/api\/galaxy\/.*draft/;
+const DRAFT_CONFIRM_TIMEOUT = 10000;
+
+export async function captureDryRun(page: Page, taskId: string | undefined): Promise<string> {
+    fs.mkdirSync(SCREENSHOTS_DIR, { recursive: true });
+    const screenshotPath = path.join(SCREENSHOTS_DIR, `dry-run_${taskId ?? 'task'}_${Date.now()}.png`);
+    await page.screenshot({ path: screenshotPath, fullPage: true });
+    log(`Dry run: editor screenshot saved to ${screenshotPath}`);
+    return screenshotPath;
+}
+
+// Click the save-draft action and wait for a success toast or draft API response
+export async function saveDraft(page: Page): Promise<void> {
+    const draftButton = await findVisible(page, 'saveDraftButton');
+    if (!draftButton) {
+        throw new Error("Save draft button not found");
+    }
+
+    let apiResult: boolean | null = null;
+    const onResponse = async (response: Response) => {
+        if (response.request().method() !== 'POST' || !DRAFT_API_PATTERN.test(response.url())) return;
+        try {
+            const body = await response.json();
+            apiResult = body?.success !== false && (body?.code === undefined || body.code === 0);
+        } catch {
+            apiResult = response.ok();
+        }
+    };
+
+    page.on('response', onResponse);
+    try {
+        await humanClick(page, draftButton.first());
+        log("Clicked save draft button, waiting for draft confirmation...");
+
+        const startTime = Date.now();
+        while (Date.now() - startTime < DRAFT_CONFIRM_TIMEOUT) {
+            if (apiResult === true || await findVisibleText(page, 'draftSuccess', true)) {
+                log("Draft saved");
+                return;
+            }
+            const failedText = await findVisibleText(page, 'draftFailed', true);
+            if (apiResult === false || failedText) {
+                throw new Error(`Saving draft failed${failedText ? `: ${failedText}` : ''}`);
+            }
+            await page.waitForTimeout(500);
+        }
+        throw new Error("Draft save confirmation not detected");
+    } finally {
+        page.off('response', onResponse);
+    }
+}
@@ -0,0 +1,225 @@
+/**
+ * 笔记附加设置
+ *
+ * 话题 / @用户 通过编辑器的联想下拉框插入 (生成真正的话题、提及链接)，
+ * 地点、可见范围、原创声明和定时发布通过发布页设置项完成，每一步都会回读校验。
+ */
+
+import { Page } from 'playwright';
+import { humanClick, humanType, pause } from './humanize';
+import { log } from './logger';
+import { countMatches, findVisible, locators, selectorTexts } from './selectors';
+import { PublishConfig } from './types';
+
+export class NoteSettingsError extends Error {
+    constructor(public readonly setting: string, message: string) {
+        super(message);
+        this.name = 'NoteSettingsError';
+    }
+}
+
+const SUGGESTION_TIMEOUT = 5000;
+
+const VISIBILITY_TEXT_KEYS: Record<NonNullable<PublishConfig['visibility']>, string> = {
+    public: 'visibilityPublic',
+    private: 'visibilityPrivate',
+    friends: 'visibilityFriends',
+};
+
+// Poll until the condition holds (e.g. a dropdown has closed and the control shows the new value)
+async function waitForCondition(page: Page, condition: () => Promise<boolean>, timeoutMs = 3000): Promise<boolean> {
+    const startTime = Date.now();
+    do {
+        if (await condition()) return true;
+        await page.waitForTimeout(250);
+    } while (Date.now() - startTime < timeoutMs);
+    return false;
+}
+
+// Put the caret at the end of the focused textarea / contenteditable editor
+async function moveCaretToEnd(page: Page): Promise<void> {
+    const editor = await findVisible(page, 'contentEditor');
+    if (editor) {
+        await humanClick(page, editor.first());
+    }
+    await page.evaluate(() => {
+        const el = document.activeElement as HTMLElement | null;
+        if (!el) return;
+        if (el instanceof HTMLTextAreaElement || el instanceof HTMLInputElement) {
+            el.setSelectionRange(el.value.length, el.value.length);
+            return;
+        }
+        const range = document.createRange();
+        range.selectNodeContents(el);
+        range.collapse(false);
+        const selection = window.getSelection();
+        selection?.removeAllRanges();
+        selection?.addRange(range);
+    });
+}
+
+// Type "#topic" / "@name" and pick the matching entry from the editor's suggestion dropdown
+async function insertFromSuggestions(
+    page: Page,
+    trigger: '#' | '@',
+    text: string
+): Promise<void> {
+    const kind = trigger === '#' ? 'topic' : 'mention';
+    const before = await countMatches(page, `${kind}Node`);
+
+    await humanType(page, null, ` ${trigger}${text}`);
+    const suggestions = await findVisible(page, `${kind}Suggestion`, SUGGESTION_TIMEOUT);
+    if (!suggestions) {
+        throw new NoteSettingsError(kind, `No ${kind} suggestions appeared for "${trigger}${text}"`);
+    }
+
+    const exact = suggestions.filter({ hasText: text }).first();
+    await humanClick(page, (await exact.count()) > 0 ? exact : suggestions.first());
+    await pause(page, 500);
+
+    if (await countMatches(page, `${kind}Node`) <= before) {
+        throw new NoteSettingsError(kind, `${kind} "${trigger}${text}" was not inserted as a link`);
+    }
+    log(`Inserted ${kind} ${trigger}${text}`);
+}
+
+export async function insertTopicsAndMentions(page: Page, config: PublishConfig): Promise<void> {
+    if (!config.topics?.length && !config.mentions?.length) return;
+
+    await moveCaretToEnd(page);
+    for (const mention of config.mentions ?? []) {
+        await insertFromSuggestions(page, '@', mention.replace(/^@/, ''));
+    }
+    for (const topic of config.topics ?? []) {
+        await insertFromSuggestions(page, '#', topic.replace(/^#/, ''));
+    }
+}
+
+// ============================================================================
+// 发布设置
+// ============================================================================
+
+async function clickElement(page: Page, key: string, setting: string): Promise<void> {
+    const el = await findVisible(page, key);
+    if (!el) {
+        throw new NoteSettingsError(setting, `'${key}' not found on the publish page`);
+    }
+    await humanClick(page, el.first());
+    await pause(page, 500);
+}
+
+async function setLocation(page: Page, location: string): Promise<void> {
+    await clickElement(page, 'locationEntry', 'location');
+
+    const input = await findVisible(page, 'locationInput', SUGGESTION_TIMEOUT);
+    if (!input) {
+        throw new NoteSettingsError('location', 'Location search input not found');
+    }
+    await humanType(page, input.first(), location);
+
+    const options = await findVisible(page, 'locationOption', SUGGESTION_TIMEOUT);
+    if (!options) {
+        throw new NoteSettingsError('location', `No location results for "${location}"`);
+    }
+    const exact = options.filter({ hasText: location }).first();
+    await humanClick(page, (await exact.count()) > 0 ? exact : options.first());
+    await pause(page, 500);
+
+    // The option text stays on screen while the dropdown is open, so only the closed control counts:
+    // no result list, no "add location" entry, and the location shown in its place
+    const applied = await waitForCondition(page, async () =>
+        !(await findVisible(page, 'locationOption')) &&
+        !(await findVisible(page, 'locationEntry')) &&
+        await page.getByText(location).first().isVisible());
+    if (!applied) {
+        throw new NoteSettingsError('location', `Location "${location}" was not applied`);
+    }
+    log(`Location set to ${location}`);
+}
+
+// Label of the closed visibility control; null while the dropdown shows every option
+async function currentVisibility(page: Page): Promise<string | null> {
+    const visible: string[] = [];
+    for (const text of Object.values(VISIBILITY_TEXT_KEYS).flatMap(key => selectorTexts(key))) {
+        if (await page.getByText(text, { exact: true }).first().isVisible().catch(() => false)) visible.push(text);
+    }
+    return visible.length === 1 ? visible[0] : null;
+}
+
+async function setVisibility(page: Page, visibility: NonNullable<PublishConfig['visibility']>): Promise<void> {
+    const labels = selectorTexts(VISIBILITY_TEXT_KEYS[visibility]);
+    let current = null;
+    for (const text of Object.values(VISIBILITY_TEXT_KEYS).flatMap(key => selectorTexts(key))) {
+        const candidate = page.getByText(text, { exact: true }).first();
+        if (await candidate.isVisible().catch(() => false)) {
+            current = candidate;
+            break;
+        }
+    }
+    if (!current) {
+        throw new NoteSettingsError('visibility', 'Visibility selector not found');
+    }
+    if (labels.includes((await current.textContent())?.trim() ?? '')) return;
+    const label = labels[0];
+
+    await humanClick(page, current);
+    await pause(page, 500);
+    await humanClick(page, page.getByText(label, { exact: true }).last());
+    await pause(page, 500);
+
+    const applied = await waitForCondition(page, async () => labels.includes((await currentVisibility(page)) ?? ''));
+    if (!applied) {
+        throw new NoteSettingsError('visibility', `Visibility "${label}" was not applied`);
+    }
+    log(`Visibility set to ${label}`);
+}
+
+async function declareOriginal(page: Page): Promise<void> {
+    await clickElement(page, 'originalToggle', 'original');
+
+    // The platform asks to confirm the originality agreement
+    for (const candidate of locators(page, 'originalConfirmButton')) {
+        const confirm = candidate.last();
+        if (await confirm.isVisible()) {
+            await humanClick(page, confirm);
+            await pause(page, 500);
+            break;
+        }
+    }
+
+    if (await countMatches(page, 'originalChecked') === 0) {
+        throw new NoteSettingsError('original', 'Original content declaration was not applied');
+    }
+    log("Original content declared");
+}
+
+const formatScheduleTime = (date: Date) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+async function setScheduledTime(page: Page, scheduledAt: string): Promise<void> {
+    await clickElement(page, 'scheduleEntry', 'scheduledAt');
+
+    const value = formatScheduleTime(new Date(scheduledAt));
+    const found = await findVisible(page, 'scheduleInput', SUGGESTION_TIMEOUT);
+    if (!found) {
+        throw new NoteSettingsError('scheduledAt', 'Schedule time input not found');
+    }
+    const input = found.first();
+    await humanType(page, input, value);
+    await input.press('Enter');
+    await pause(page, 500);
+
+    if ((await input.inputValue()).trim() !== value) {
+        throw new NoteSettingsError('scheduledAt', `Scheduled time "${value}" was not applied`);
+    }
+    log(`Scheduled publish time set to ${value}`);
+}
+
+export async function applyNoteSettings(page: Page, config: PublishConfig): Promise<void> {
+    if (config.location) await setLocation(page, config.location);
+    if (config.visibility) await setVisibility(page, config.visibility);
+    if (config.original) await declareOriginal(page);
+    if (config.scheduledAt) await setScheduledTime(page, config.scheduledAt);
+}
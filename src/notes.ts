@@ -0,0 +1,242 @@
+/**
+ * 已发布笔记 (notes 命令)
+ *
+ * 复用 CDP 会话打开创作中心的笔记管理页，从页面自身发出的笔记列表接口响应中读取
+ * 笔记 ID、标题、发布时间、审核状态和互动数据 (浏览 / 点赞 / 收藏 / 评论)。
+ * 列表接口带页面签名，无法直接请求，翻页靠滚动列表触发下一页加载。
+ */
+
+import { Page, Response } from 'playwright';
+import { parseArgs } from 'util';
+import { getAccount } from './accounts';
+import { connectCDP, getOrCreatePage } from './browser';
+import { humanScroll } from './humanize';
+import { isOnLoginPage } from './login';
+import { log, writeOutput } from './logger';
+import { selectorTexts } from './selectors';
+import { noteManagerUrl } from './urls';
+
+// 笔记管理列表接口 (GET /web_api/sns/v5/creator/note/user/posted?tab=0&page=N)
+const POSTED_NOTES_API_PATTERN = /\/creator\/note\/user\/posted/;
+// No further list response after scrolling this long means the list is exhausted
+const NEXT_PAGE_TIMEOUT = 8000;
+
+export type NoteReviewStatus = 'reviewing' | 'published' | 'rejected' | 'unknown';
+
+export interface NoteSummary {
+    noteId: string;
+    title: string;
+    publishTime?: string;     // ISO 8601
+    status: NoteReviewStatus;
+    statusText?: string;      // Label shown by the creator center, e.g. 审核中 / 已发布 / 未通过
+    type?: string;            // normal (图文) / video
+    views?: number;
+    likes?: number;
+    collects?: number;
+    comments?: number;
+    shares?: number;
+}
+
+export interface NotesQuery {
+    since?: number;           // Epoch ms, inclusive
+    until?: number;           // Epoch ms, inclusive
+    status?: NoteReviewStatus;
+    page: number;             // 1-based
+    pageSize: number;
+}
+
+const STATUS_TEXT_KEYS: Array<[NoteReviewStatus, string]> = [
+    ['rejected', 'noteStatusRejected'],
+    ['reviewing', 'noteStatusReviewing'],
+    ['published', 'noteStatusPublished'],
+];
+
+function toStatus(statusText: string | undefined): NoteReviewStatus {
+    // Notes without a status label in the list are live
+    if (!statusText) return 'published';
+    for (const [status, key] of STATUS_TEXT_KEYS) {
+        if (selectorTexts(key).some(text => statusText.includes(text))) return status;
+    }
+    return 'unknown';
+}
+
+const toCount = (value: unknown): number | undefined => {
+    const n = Number(value);
+    return value === undefined || value === null || Number.isNaN(n) ? undefined : n;
+};
+
+// The list reports either epoch seconds / ms or a local "YYYY-MM-DD HH:mm" string
+function toIsoTime(value: unknown): string | undefined {
+    if (typeof value === 'number') return new Date(value < 1e12 ? value * 1000 : value).toISOString();
+    if (typeof value !== 'string' || !value) return undefined;
+    const time = new Date(value.includes('T') ? value : value.replace(' ', 'T')).getTime();
+    return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+function parseNote(raw: any): NoteSummary | null {
+    const noteId = raw?.id ?? raw?.note_id;
+    if (!noteId) return null;
+    const statusText = raw.permission_msg || raw.audit_status_desc || raw.status_desc || raw.tab_status_desc || undefined;
+    return {
+        noteId: String(noteId),
+        title: raw.display_title ?? raw.title ?? '',
+        publishTime: toIsoTime(raw.time ?? raw.post_time ?? raw.create_time),
+        status: toStatus(statusText),
+        statusText,
+        type: raw.type,
+        views: toCount(raw.view_count),
+        likes: toCount(raw.likes ?? raw.liked_count),
+        collects: toCount(raw.collected_count),
+        comments: toCount(raw.comments_count ?? raw.comment_count),
+        shares: toCount(raw.shared_count ?? raw.share_count),
+    };
+}
+
+// Collects list pages as the note manager loads them
+function watchPostedNotes(page: Page) {
+    const notes = new Map<string, NoteSummary>();
+    let responses = 0;
+    let exhausted = false;
+
+    const handler = async (response: Response) => {
+        if (!POSTED_NOTES_API_PATTERN.test(response.url())) return;
+        try {
+            const body = await response.json();
+            const data = body?.data ?? {};
+            for (const raw of data.notes ?? []) {
+                const note = parseNote(raw);
+                if (note) notes.set(note.noteId, note);
+            }
+            // The list API returns page -1 once there are no more notes
+            if (data.page === -1 || (data.notes ?? []).length === 0) exhausted = true;
+        } catch (e: any) {
+            log(`Failed to parse note list response: ${e.message}`);
+        }
+        responses++;
+    };
+    page.on('response', handler);
+
+    return {
+        get notes(): NoteSummary[] {
+            return [...notes.values()];
+        },
+        get exhausted(): boolean {
+            return exhausted;
+        },
+        get responseCount(): number {
+            return responses;
+        },
+        // Wait for one more list response after the given count
+        async waitForResponse(after: number, timeoutMs: number): Promise<boolean> {
+            const startTime = Date.now();
+            while (responses <= after && Date.now() - startTime < timeoutMs) {
+                await page.waitForTimeout(250);
+            }
+            return responses > after;
+        },
+        dispose() {
+            page.off('response', handler);
+        },
+    };
+}
+
+const publishedAt = (note: NoteSummary) => note.publishTime ? new Date(note.publishTime).getTime() : NaN;
+
+function matches(note: NoteSummary, query: NotesQuery): boolean {
+    const time = publishedAt(note);
+    if (query.since !== undefined && !(time >= query.since)) return false;
+    if (query.until !== undefined && !(time <= query.until)) return false;
+    return !query.status || note.status === query.status;
+}
+
+/**
+ * 读取笔记管理列表 (按发布时间倒序)，加载到足够覆盖所请求的页或早于 since 为止。
+ */
+export async function listNotes(page: Page, query: NotesQuery) {
+    const watcher = watchPostedNotes(page);
+    try {
+        await page.goto(noteManagerUrl(), { waitUntil: 'networkidle', timeout: 60000 });
+        if (await isOnLoginPage(page)) {
+            throw new Error('Not logged in to the creator center, run the login command first');
+        }
+        await watcher.waitForResponse(0, NEXT_PAGE_TIMEOUT);
+
+        const needed = query.page * query.pageSize;
+        const reachedSince = () => query.since !== undefined && watcher.notes.some(n => publishedAt(n) < query.since!);
+        // One extra match tells whether a further page exists
+        while (!watcher.exhausted && !reachedSince() && watcher.notes.filter(n => matches(n, query)).length <= needed) {
+            const before = watcher.responseCount;
+            log(`Loaded ${watcher.notes.length} notes, scrolling for more...`);
+            await humanScroll(page, 4000);
+            if (!(await watcher.waitForResponse(before, NEXT_PAGE_TIMEOUT))) break;
+        }
+
+        const filtered = watcher.notes
+            .filter(n => matches(n, query))
+            .sort((a, b) => (publishedAt(b) || 0) - (publishedAt(a) || 0));
+        const start = (query.page - 1) * query.pageSize;
+        return {
+            page: query.page,
+            pageSize: query.pageSize,
+            hasMore: filtered.length > start + query.pageSize,
+            notes: filtered.slice(start, start + query.pageSize),
+        };
+    } finally {
+        watcher.dispose();
+    }
+}
+
+// ============================================================================
+// notes 命令
+// ============================================================================
+
+const NOTE_STATUSES: NoteReviewStatus[] = ['reviewing', 'published', 'rejected', 'unknown'];
+
+function parseDateArg(flag: string, raw: string | undefined, endOfDay = false): number | undefined {
+    if (raw === undefined) return undefined;
+    // A bare date covers that whole local day
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(raw);
+    const time = new Date(dateOnly ? `${raw}T${endOfDay ? '23:59:59.999' : '00:00:00'}` : raw).getTime();
+    if (Number.isNaN(time)) throw new Error(`Invalid --${flag} date: ${raw}`);
+    return time;
+}
+
+/**
+ * notes [--account <id>] [--since <date>] [--until <date>] [--status reviewing|published|rejected]
+ *       [--page <n>] [--page-size <n>]
+ */
+export async function runNotesCommand(args: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            account: { type: 'string' },
+            since: { type: 'string' },
+            until: { type: 'string' },
+            status: { type: 'string' },
+            page: { type: 'string' },
+            'page-size': { type: 'string' },
+        },
+    });
+
+    const query: NotesQuery = {
+        since: parseDateArg('since', values.since),
+        until: parseDateArg('until', values.until, true),
+        status: values.status as NoteReviewStatus | undefined,
+        page: values.page !== undefined ? Number(values.page) : 1,
+        pageSize: values['page-size'] !== undefined ? Number(values['page-size']) : 20,
+    };
+    if (query.status && !NOTE_STATUSES.includes(query.status)) {
+        throw new Error(`Invalid --status: ${query.status} (allowed: ${NOTE_STATUSES.join(', ')})`);
+    }
+    if (!Number.isInteger(query.page) || query.page < 1) throw new Error(`Invalid --page: ${values.page}`);
+    if (!Number.isInteger(query.pageSize) || query.pageSize < 1) throw new Error(`Invalid --page-size: ${values['page-size']}`);
+
+    const account = getAccount(values.account);
+    const browser = await connectCDP(account);
+    try {
+        const page = await getOrCreatePage(browser);
+        writeOutput({ type: 'notes', accountId: account.id, ...(await listNotes(page, query)) });
+    } finally {
+        await browser.close();
+    }
+}
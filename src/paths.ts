@@ -0,0 +1,9 @@
+/**
+ * 本地数据目录
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+
+// 浏览器配置、账号等持久化数据的根目录
+export const AGENT_HOME = path.join(os.homedir(), '.auto-tauri');
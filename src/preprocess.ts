@@ -0,0 +1,212 @@
+/**
+ * 图片预处理
+ *
+ * 在独立的无头 Chrome 中用 OffscreenCanvas 解码并重新编码图片 (不依赖原生图像库):
+ * 转为 JPEG/PNG、缩放到平台尺寸范围内、可选裁剪/留白到 3:4 或 1:1、加文字水印。
+ * 重新编码天然丢弃 EXIF/GPS 等元数据；方向信息在解码时先应用到像素上。
+ * HEIC 在 Chrome 中无法解码，macOS 上先用系统自带的 sips 转为 JPEG。
+ */
+
+import { chromium, Page } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getChromePath } from './browser';
+import { readImageInfo } from './imageInfo';
+import { log } from './logger';
+import { ImagePreprocessOptions } from './types';
+import { PLATFORM_LIMITS } from './validate';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_MAX_SIDE = 4096;
+// Each retry shrinks the longer side when the encoded file is still over the size limit
+const SHRINK_FACTOR = 0.75;
+const MAX_SHRINK_ATTEMPTS = 3;
+
+// Same-origin URL served through page.route, so the worker page can fetch local files
+const WORKER_ORIGIN = 'http://xhs-agent.local';
+
+type ResolvedOptions = Required<Omit<ImagePreprocessOptions, 'aspect' | 'watermark'>> & Pick<ImagePreprocessOptions, 'aspect' | 'watermark'>;
+
+interface ImageSummary {
+    format: string;
+    width?: number;
+    height?: number;
+    bytes: number;
+}
+
+export interface PreprocessReport {
+    options: ResolvedOptions;
+    images: Array<{ index: number; original: ImageSummary; output: ImageSummary }>;
+}
+
+function resolveOptions(options: ImagePreprocessOptions): ResolvedOptions {
+    return {
+        format: options.format ?? 'jpeg',
+        quality: options.quality ?? 0.92,
+        maxSide: Math.min(options.maxSide ?? DEFAULT_MAX_SIDE, PLATFORM_LIMITS.maxImageSide),
+        fit: options.fit ?? 'crop',
+        background: options.background ?? '#ffffff',
+        aspect: options.aspect,
+        watermark: options.watermark,
+    };
+}
+
+function summarize(filePath: string): ImageSummary {
+    const info = readImageInfo(filePath);
+    return { format: info?.format ?? 'unknown', width: info?.width, height: info?.height, bytes: fs.statSync(filePath).size };
+}
+
+// Chrome cannot decode HEIC; macOS ships sips which can
+async function convertHeic(filePath: string, tmpDir: string, index: number): Promise<string> {
+    if (process.platform !== 'darwin') {
+        throw new Error(`Image ${index + 1} is HEIC, which can only be converted on macOS`);
+    }
+    const dest = path.join(tmpDir, `heic_${index}.jpg`);
+    await execFileAsync('sips', ['-s', 'format', 'jpeg', filePath, '--out', dest]);
+    return dest;
+}
+
+// Runs inside the worker page
+async function renderInPage(args: { url: string; options: ResolvedOptions; maxSide: number; minSide: number }): Promise<string> {
+    const { options, maxSide, minSide } = args;
+    const blob = await (await fetch(args.url)).blob();
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+
+    // Source rectangle (crop) and canvas size before scaling
+    let sx = 0, sy = 0, sw = bitmap.width, sh = bitmap.height;
+    let canvasW = sw, canvasH = sh;
+    if (options.aspect) {
+        const [w, h] = options.aspect.split(':').map(Number);
+        const ratio = w / h;
+        if (options.fit === 'pad') {
+            if (sw / sh > ratio) canvasH = sw / ratio; else canvasW = sh * ratio;
+        } else if (sw / sh > ratio) {
+            sx = (sw - sh * ratio) / 2;
+            sw = canvasW = sh * ratio;
+        } else {
+            sy = (sh - sw / ratio) / 2;
+            sh = canvasH = sw / ratio;
+        }
+    }
+
+    let scale = Math.min(1, maxSide / Math.max(canvasW, canvasH));
+    if (Math.min(canvasW, canvasH) * scale < minSide) {
+        scale = minSide / Math.min(canvasW, canvasH);
+    }
+    const width = Math.round(canvasW * scale);
+    const height = Math.round(canvasH * scale);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d')!;
+    if (options.fit === 'pad' || options.format === 'jpeg') {
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, width, height);
+    }
+    const drawW = sw * scale, drawH = sh * scale;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, sx, sy, sw, sh, (width - drawW) / 2, (height - drawH) / 2, drawW, drawH);
+    bitmap.close();
+
+    const watermark = options.watermark;
+    if (watermark?.text) {
+        const fontSize = watermark.fontSize ?? Math.max(12, Math.round(Math.min(width, height) * 0.04));
+        const margin = fontSize;
+        const position = watermark.position ?? 'bottom-right';
+        ctx.font = `${fontSize}px sans-serif`;
+        ctx.globalAlpha = watermark.opacity ?? 0.6;
+        ctx.fillStyle = watermark.color ?? '#ffffff';
+        ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+        ctx.shadowBlur = fontSize / 4;
+        ctx.textAlign = position === 'center' ? 'center' : position.endsWith('left') ? 'left' : 'right';
+        ctx.textBaseline = position === 'center' ? 'middle' : position.startsWith('top') ? 'top' : 'bottom';
+        const x = position === 'center' ? width / 2 : position.endsWith('left') ? margin : width - margin;
+        const y = position === 'center' ? height / 2 : position.startsWith('top') ? margin : height - margin;
+        ctx.fillText(watermark.text, x, y);
+    }
+
+    const output = await canvas.convertToBlob({ type: `image/${options.format}`, quality: options.quality });
+    const bytes = new Uint8Array(await output.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+async function processOne(page: Page, filePath: string, options: ResolvedOptions, dest: string): Promise<void> {
+    let maxSide = options.maxSide;
+    for (let attempt = 0; ; attempt++) {
+        const encoded = await page.evaluate(renderInPage, {
+            url: `${WORKER_ORIGIN}/image?path=${encodeURIComponent(filePath)}`,
+            options,
+            maxSide,
+            minSide: PLATFORM_LIMITS.minImageSide,
+        });
+        const buffer = Buffer.from(encoded, 'base64');
+        if (buffer.length <= PLATFORM_LIMITS.maxImageBytes || attempt >= MAX_SHRINK_ATTEMPTS) {
+            fs.writeFileSync(dest, buffer);
+            return;
+        }
+        maxSide = Math.round(maxSide * SHRINK_FACTOR);
+        log(`Encoded image is ${(buffer.length / 1024 / 1024).toFixed(1)}MB, retrying with max side ${maxSide}px`);
+    }
+}
+
+/**
+ * 逐张预处理图片，输出写入 tmpDir；返回新路径和处理记录
+ */
+export async function preprocessImages(
+    imagePaths: string[],
+    preprocess: ImagePreprocessOptions,
+    tmpDir: string
+): Promise<{ paths: string[]; report: PreprocessReport }> {
+    const options = resolveOptions(preprocess);
+    const chromePath = getChromePath();
+    if (!chromePath) {
+        throw new Error('Chrome 未找到，无法预处理图片');
+    }
+
+    log(`Preprocessing ${imagePaths.length} images (${options.format}, max ${options.maxSide}px${options.aspect ? `, ${options.fit} to ${options.aspect}` : ''}${options.watermark ? ', watermark' : ''})...`);
+    const worker = await chromium.launch({ executablePath: chromePath, headless: true });
+    const report: PreprocessReport = { options, images: [] };
+    const paths: string[] = [];
+
+    try {
+        const page = await worker.newPage();
+        const allowed = new Set<string>();
+        await page.route(`${WORKER_ORIGIN}/**`, route => {
+            const url = new URL(route.request().url());
+            const filePath = url.searchParams.get('path');
+            if (url.pathname === '/image' && filePath && allowed.has(filePath)) {
+                return route.fulfill({ path: filePath, headers: { 'Content-Type': 'application/octet-stream' } });
+            }
+            return route.fulfill({ contentType: 'text/html', body: '<!doctype html><title>xhs-agent</title>' });
+        });
+        await page.goto(`${WORKER_ORIGIN}/`);
+
+        for (let i = 0; i < imagePaths.length; i++) {
+            const original = summarize(imagePaths[i]);
+            const source = original.format === 'heic' ? await convertHeic(imagePaths[i], tmpDir, i) : imagePaths[i];
+            allowed.add(source);
+
+            const dest = path.join(tmpDir, `preprocessed_${i}.${options.format === 'jpeg' ? 'jpg' : 'png'}`);
+            try {
+                await processOne(page, source, options, dest);
+            } catch (e: any) {
+                throw new Error(`Failed to preprocess image ${i + 1}: ${e.message}`);
+            }
+
+            const output = summarize(dest);
+            log(`Image ${i + 1}: ${original.format} ${original.width}x${original.height} -> ${output.format} ${output.width}x${output.height} (${Math.round(output.bytes / 1024)}KB)`);
+            report.images.push({ index: i, original, output });
+            paths.push(dest);
+        }
+    } finally {
+        await worker.close();
+    }
+
+    return { paths, report };
+}
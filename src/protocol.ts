@@ -0,0 +1,33 @@
+/**
+ * 对外协议类型
+ *
+ * 供桌面端等调用方以 `import type` 方式引用，对 stdout / stderr 的 JSON 行做类型检查。
+ */
+
+export type {
+    AgentEvent,
+    LoginQrCodeEvent,
+    LoginState,
+    LoginStateEvent,
+    PublishStage,
+    StageStartedEvent,
+    StageFinishedEvent,
+    UploadProgressEvent,
+    UploadErrorEvent,
+    WarningEvent,
+} from './events';
+export { EVENT_SCHEMA_VERSION } from './events';
+export type { DaemonMessage } from './daemon';
+export type { TaskState } from './server';
+export type { CancelOutcome } from './queue';
+export type { CancelReason } from './cancellation';
+export type { UploadFailure } from './upload';
+export type { DiagnosticsMode, DuplicateContentPolicy, HumanizeOptions, ImageAspect, ImagePreprocessOptions, NoteVisibility, PublishConfig, PublishFailureReason, PublishMode, PublishResult, PublishResultData, PublishStatus } from './types';
+export type { PreprocessReport } from './preprocess';
+export type { ValidationIssue, ValidationSeverity } from './validate';
+export type { Account, PublishLimits } from './accounts';
+export type { LedgerEntry } from './ledger';
+export type { NoteReviewStatus, NoteSummary } from './notes';
+export type { CommentSummary, ReplyRule, ReplyRuleFile } from './comments';
+export type { LoginStatus } from './login';
+export type { SelectorProfile, SelectorSpec } from './selectors';
@@ -0,0 +1,568 @@
+/**
+ * 小红书发布流程
+ */
+
+import { Browser, Dialog, Page, Response } from 'playwright';
+import { getAccount } from './accounts';
+import { createTaskAbort, TaskAbort, TaskCancelledError } from './cancellation';
+import { connectCDP, getChromePath, getOrCreatePage } from './browser';
+import { createDiagnostics, Diagnostics } from './diagnostics';
+import { emitWarning } from './events';
+import { configureHumanize, humanClick, humanType, pause } from './humanize';
+import { checkLedger, LedgerRun, recordRun } from './ledger';
+import { log } from './logger';
+import { DEFAULT_LOGIN_TIMEOUT, isOnLoginPage, LoginTimeoutError, waitForLogin } from './login';
+import { createTaskTempDir, pruneImageCache, removeTaskTempDir, resolveImageSource, resolveImageSources, resolveVideoSource } from './media';
+import { captureDryRun, saveDraft } from './modes';
+import { applyNoteSettings, insertTopicsAndMentions, NoteSettingsError } from './noteSettings';
+import { preprocessImages, PreprocessReport } from './preprocess';
+import { findAttached, findVisible, locators, publishErrorTexts, selectorTexts } from './selectors';
+import { PublishConfig, PublishFailureReason, PublishResult } from './types';
+import { UploadError, uploadImages, uploadVideo } from './upload';
+import { noteUrl, publishUrl } from './urls';
+import { editorText, formatIssues, hasErrors, validateImageFile, validatePublishConfig, ValidationIssue } from './validate';
+
+// ============================================================================
+// 发布步骤
+// ============================================================================
+
+async function fillTitleAndContent(page: Page, config: PublishConfig): Promise<void> {
+    log("Filling title and content...");
+    const titleInput = await findAttached(page, 'titleInput', 10000);
+    await humanType(page, titleInput.first(), config.title);
+
+    const combinedContent = editorText(config);
+    const contentArea = await findVisible(page, 'contentEditor');
+    if (contentArea) {
+        await humanType(page, contentArea.first(), combinedContent);
+    } else {
+        await page.keyboard.press('Tab');
+        await humanType(page, null, combinedContent);
+    }
+}
+
+async function clickPublishButton(page: Page, verb = 'Clicked'): Promise<void> {
+    const candidates = locators(page, 'publishButton');
+    for (let i = 0; i < candidates.length; i++) {
+        if (await candidates[i].first().isVisible()) {
+            await humanClick(page, candidates[i].first());
+            log(`${verb} publish button (selector #${i + 1})`);
+            return;
+        }
+    }
+    throw new Error("Publish button not found");
+}
+
+// Check for "图片上传中，请稍后" popup and re-click publish once it clears
+async function handleUploadPopup(page: Page, taskId: string | undefined): Promise<void> {
+    for (const msg of selectorTexts('uploadPopup')) {
+        try {
+            const popupEl = page.getByText(msg);
+            if (await popupEl.isVisible({ timeout: 1000 })) {
+                log(`Detected upload popup: "${msg}", waiting 3 seconds...`);
+                emitWarning(taskId, 'upload_popup', `Upload still in progress when publishing: "${msg}"`);
+                await pause(page, 3000);
+
+                log("Re-clicking publish button after upload popup...");
+                await clickPublishButton(page, 'Re-clicked');
+                return;
+            }
+        } catch { }
+    }
+}
+
+// Wait for success message or URL change
+async function waitForConfirmation(page: Page, taskId: string | undefined, attempt: number): Promise<boolean> {
+    log("Waiting for confirmation...");
+    try {
+        log(`Current URL before waiting: ${page.url()}`);
+
+        // Check each condition separately with logging
+        const successPromises = [
+            ...selectorTexts('publishSuccess').map(successText =>
+                page.getByText(successText).first().waitFor({ timeout: 8000 }).then(() => {
+                    log(`Detected: '${successText}' text appeared`);
+                    return `text:${successText}`;
+                })
+            ),
+            page.waitForURL('**/note/**', { timeout: 8000 }).then(() => {
+                log(`Detected: URL changed to note page: ${page.url()}`);
+                return 'url_change';
+            })
+        ];
+
+        const result = await Promise.race(successPromises);
+        log(`Success detected via: ${result}`);
+        return true;
+    } catch (e: any) {
+        log(`Attempt ${attempt}: Success message not detected. Error: ${e.message}`);
+        log(`Current URL after timeout: ${page.url()}`);
+
+        // Try to capture visible text elements for debugging
+        try {
+            const buttons = await page.locator('button').allTextContents();
+            log(`Visible buttons: ${buttons.slice(0, 10).join(', ')}`);
+        } catch { }
+
+        // Check for other success toasts we might have missed; exact matches only, so labels
+        // that merely contain the text (e.g. an upload status) do not count as a publish
+        for (const successText of selectorTexts('publishSuccessFallback')) {
+            try {
+                const el = page.getByText(successText, { exact: true }).first();
+                if (await el.isVisible({ timeout: 500 })) {
+                    log(`Found alternative success text: "${successText}"`);
+                    emitWarning(taskId, 'alternative_success_text', `Publish confirmed via fallback text "${successText}"`);
+                    return true;
+                }
+            } catch { }
+        }
+        return false;
+    }
+}
+
+// Transient failures are worth another publish attempt; the rest fail immediately
+const RETRYABLE_REASONS = new Set<PublishFailureReason>(['publish_failed', 'rate_limited', 'network_error']);
+
+async function detectErrorMessage(page: Page): Promise<{ text: string; reason: PublishFailureReason } | null> {
+    // Visible error texts and the failure reason each one maps to
+    for (const [errMsg, reason] of publishErrorTexts()) {
+        try {
+            const errorEl = page.getByText(errMsg);
+            if (await errorEl.isVisible({ timeout: 500 })) {
+                log(`Error message detected: ${errMsg}`);
+                return { text: errMsg, reason };
+            }
+        } catch {
+            // Error element not found, continue
+        }
+    }
+    return null;
+}
+
+// 创作中心发布接口 (POST /web_api/sns/v2/note)
+const NOTE_PUBLISH_API_PATTERN = /\/web_api\/sns\/v\d+\/note(\?|$)/;
+
+interface NotePublishResponse {
+    noteId?: string;
+    noteUrl?: string;
+    error?: string;
+}
+
+function parseNotePublishResponse(body: any): NotePublishResponse {
+    if (body?.success === false || (typeof body?.code === 'number' && body.code !== 0)) {
+        return { error: body.msg || `code ${body.code}` };
+    }
+    const noteId = body?.data?.id ?? body?.data?.note_id ?? body?.note_id;
+    const shareLink = body?.share_link ?? body?.data?.share_link;
+    return {
+        noteId: noteId ? String(noteId) : undefined,
+        noteUrl: shareLink || (noteId ? noteUrl(String(noteId)) : undefined),
+    };
+}
+
+// Capture the creator center's publish API response to learn the created note ID
+function watchNotePublishResponse(page: Page) {
+    let captured: NotePublishResponse | null = null;
+
+    const handler = async (response: Response) => {
+        if (response.request().method() !== 'POST' || !NOTE_PUBLISH_API_PATTERN.test(response.url())) return;
+        try {
+            captured = parseNotePublishResponse(await response.json());
+            log(captured.error
+                ? `Publish API returned error: ${captured.error}`
+                : `Publish API returned note ID: ${captured.noteId ?? '(none)'}`);
+        } catch (e: any) {
+            log(`Failed to parse publish API response: ${e.message}`);
+        }
+    };
+    page.on('response', handler);
+
+    return {
+        get result(): NotePublishResponse | null {
+            return captured;
+        },
+        async waitForResult(timeoutMs: number): Promise<NotePublishResponse | null> {
+            const startTime = Date.now();
+            while (!captured && Date.now() - startTime < timeoutMs) {
+                await page.waitForTimeout(250);
+            }
+            return captured;
+        },
+        dispose() {
+            page.off('response', handler);
+        },
+    };
+}
+
+async function dumpPageState(page: Page): Promise<void> {
+    log("All attempts exhausted. Dumping page state...");
+    log(`Final URL: ${page.url()}`);
+
+    try {
+        const pageTitle = await page.title();
+        log(`Page title: ${pageTitle}`);
+    } catch { }
+
+    try {
+        const pageText = await page.innerText('body');
+        log(`Page Content (first 2000 chars):\n${pageText.substring(0, 2000)}`);
+    } catch (innerErr: any) {
+        log(`Failed to get page text: ${innerErr.message}`);
+    }
+}
+
+// ============================================================================
+// 主发布流程
+// ============================================================================
+
+function validationFailure(config: PublishConfig, issues: ValidationIssue[]): PublishResult {
+    return {
+        taskId: config.taskId,
+        status: 'failed',
+        data: { message: `内容校验失败: ${formatIssues(issues)}`, reason: 'validation_failed', validationErrors: issues }
+    };
+}
+
+// After the publish click the note may already be live, so a later error cannot be reported as a failure
+function unconfirmedAfterError(config: PublishConfig, e: Error): PublishResult {
+    emitWarning(config.taskId, 'publish_unconfirmed', `Error after the publish button was clicked: ${e.message}`);
+    return { taskId: config.taskId, status: 'unconfirmed', data: { message: `点击发布后出错，笔记可能已发布，请检查小红书后台确认: ${e.message}` } };
+}
+
+function cancelledResult(config: PublishConfig, e: TaskCancelledError): PublishResult {
+    return { taskId: config.taskId, status: 'cancelled', data: { message: e.message, reason: e.reason, stage: e.stage } };
+}
+
+// Discard the half-filled editor by reloading the publish page
+async function resetEditor(page: Page): Promise<void> {
+    const acceptUnload = (dialog: Dialog) => dialog.type() === 'beforeunload' ? dialog.accept() : dialog.dismiss();
+    page.on('dialog', acceptUnload);
+    try {
+        log("Resetting the editor page...");
+        await page.goto(publishUrl(), { waitUntil: 'domcontentloaded', timeout: 15000 });
+    } catch (e: any) {
+        log(`Failed to reset the editor page: ${e.message}`);
+    } finally {
+        page.off('dialog', acceptUnload);
+    }
+}
+
+export interface RunPublishOptions {
+    // Shared connection for config.accountId (daemon mode), only requested once the task has passed validation;
+    // it is left connected afterwards
+    acquireBrowser?: () => Promise<Browser>;
+    // Aborts the task at the next checkpoint (or immediately during abortable stages)
+    signal?: AbortSignal;
+}
+
+export async function runPublish(config: PublishConfig, options: RunPublishOptions = {}): Promise<PublishResult> {
+    const taskId = config.taskId;
+    configureHumanize(config.humanize);
+
+    const abort = createTaskAbort(config.deadlineMs, options.signal);
+    let run: LedgerRun | null = null;
+    let result: PublishResult | null = null;
+    try {
+        // Reject invalid content (including unknown accounts) before touching the ledger or the browser
+        const issues = await abort.runStage(taskId, 'validation', async () => validatePublishConfig(config));
+        issues.filter(i => i.severity === 'warning').forEach(i => emitWarning(taskId, `validation_${i.code}`, `${i.field}: ${i.message}`));
+        if (hasErrors(issues)) {
+            log(`Validation failed: ${formatIssues(issues)}`);
+            return validationFailure(config, issues);
+        }
+
+        // Idempotency and per-account limits are checked against the ledger before anything runs
+        const check = checkLedger(config);
+        if (check.action === 'reuse') {
+            log(`Task ${taskId} was already published at ${check.entry.startedAt}, not publishing again`);
+            return {
+                taskId,
+                status: 'success',
+                data: { message: '该任务已发布过，未重复发布', duplicate: true, noteId: check.entry.noteId, noteUrl: check.entry.noteUrl },
+            };
+        }
+        if (check.action === 'reject') {
+            log(`Refused: ${check.message}`);
+            return { taskId, status: 'failed', data: { message: check.message, reason: check.reason, retryAt: check.retryAt } };
+        }
+        check.warnings.forEach(message => emitWarning(taskId, 'duplicate_content', message));
+
+        run = recordRun(config);
+        result = await runPublishTask(config, options, abort);
+        return result;
+    } catch (e) {
+        if (e instanceof TaskCancelledError) {
+            log(e.message);
+            result = cancelledResult(config, e);
+            return result;
+        }
+        throw e;
+    } finally {
+        abort.dispose();
+        run?.finish(result, abort.submitted);
+    }
+}
+
+async function runPublishTask(config: PublishConfig, options: RunPublishOptions, abort: TaskAbort): Promise<PublishResult> {
+    const taskId = config.taskId;
+
+    // Check if Chrome is installed
+    const chromePath = getChromePath();
+    if (!chromePath) {
+        const installHint = process.platform === 'win32'
+            ? '请访问 https://www.google.cn/chrome/ 下载安装 Chrome 浏览器'
+            : process.platform === 'linux'
+                ? '请安装 google-chrome 或 chromium (如: sudo apt install chromium)'
+                : '请访问 https://www.google.cn/chrome/ 下载安装 Chrome 浏览器，或运行: brew install --cask google-chrome';
+        throw new Error(`未检测到 Chrome 浏览器。${installHint}，或通过 XHS_AGENT_CHROME_PATH / --chrome-path 指定可执行文件`);
+    }
+    log(`Found Chrome at: ${chromePath}`);
+
+    // Per-task temp dir; removed once the task finishes, whatever the outcome
+    const task: TaskContext = { tmpDir: createTaskTempDir(taskId), diagnostics: createDiagnostics(taskId, config.diagnostics), abort };
+    let result: PublishResult | null = null;
+    try {
+        try {
+            result = await publishWithMedia(config, options, task);
+        } catch (e: any) {
+            // Media processing and browser connection run before the page-level error handling;
+            // their failures still become a result so the diagnostics bundle is attached to it
+            log(e instanceof TaskCancelledError ? e.message : `Error: ${e.message}`);
+            result = e instanceof TaskCancelledError
+                ? cancelledResult(config, e)
+                : abort.submitted
+                    ? unconfirmedAfterError(config, e)
+                    : { taskId, status: 'failed', data: { message: e.message, reason: 'error' } };
+        }
+        if (task.preprocess) result.data.preprocess = task.preprocess;
+        return result;
+    } finally {
+        task.diagnostics.finish(result);
+        removeTaskTempDir(task.tmpDir);
+        pruneImageCache();
+    }
+}
+
+// Per-task resources shared between runPublish and the publish flow
+interface TaskContext {
+    tmpDir: string;
+    abort: TaskAbort;
+    diagnostics: Diagnostics;
+    preprocess?: PreprocessReport;
+}
+
+async function publishWithMedia(config: PublishConfig, options: RunPublishOptions, task: TaskContext): Promise<PublishResult> {
+    const taskId = config.taskId;
+    const { tmpDir, abort } = task;
+
+    // Video notes take precedence over images when videoPath is provided
+    const isVideo = !!config.videoPath;
+    const actualImagePaths: string[] = [];
+    let actualVideoPath = '';
+    let actualCoverPath: string | null = null;
+
+    await abort.runStage(taskId, 'image_processing', async () => {
+        if (isVideo) {
+            log(`Processing video: ${config.videoPath!.substring(0, 50)}...`);
+            actualVideoPath = await resolveVideoSource(config.videoPath!, tmpDir);
+            if (config.coverPath) {
+                log(`Processing cover image: ${config.coverPath.substring(0, 50)}...`);
+                actualCoverPath = await resolveImageSource(config.coverPath, 0);
+            }
+            log(`Video processed successfully`);
+        } else {
+            actualImagePaths.push(...await resolveImageSources(config));
+            if (config.preprocess) {
+                const { paths, report } = await preprocessImages(actualImagePaths, config.preprocess, tmpDir);
+                actualImagePaths.splice(0, actualImagePaths.length, ...paths);
+                task.preprocess = report;
+            }
+        }
+    });
+
+    // Downloaded images could only be checked once they are on disk
+    const fileIssues = [
+        ...actualImagePaths.flatMap((imagePath, i) => validateImageFile(imagePath, `imagePaths[${i}]`)),
+        ...(actualCoverPath ? validateImageFile(actualCoverPath, 'coverPath') : []),
+    ].filter(i => i.severity === 'error');
+    if (fileIssues.length > 0) {
+        log(`Validation failed: ${formatIssues(fileIssues)}`);
+        return validationFailure(config, fileIssues);
+    }
+
+    const account = getAccount(config.accountId);
+    log(`Initializing CDP Stealth browser connection (account: ${account.id})...`);
+
+    // 使用 CDP 连接模式
+    const browser = await abort.runStage(taskId, 'browser_connect', () => options.acquireBrowser ? options.acquireBrowser() : connectCDP(account));
+    const page = await getOrCreatePage(browser);
+    await task.diagnostics.attach(page);
+
+    try {
+        log("Navigating to Xiaohongshu Creator Center...");
+        await page.goto(publishUrl(), { waitUntil: 'networkidle', timeout: 60000 });
+
+        const checkPublishPage = () => page.url().includes('/publish/publish');
+
+        if (!checkPublishPage()) {
+            await abort.runStage(taskId, 'login_wait', async () => {
+                log("--- ACTION REQUIRED ---");
+                const loginTimeout = config.loginTimeoutMs ?? DEFAULT_LOGIN_TIMEOUT;
+                const startTime = Date.now();
+
+                if (await isOnLoginPage(page)) {
+                    await waitForLogin(page, taskId, loginTimeout);
+                    log("Login confirmed, navigating to the Publish page...");
+                    await page.goto(publishUrl(), { waitUntil: 'networkidle', timeout: 60000 });
+                }
+
+                log("Waiting for user to reach the Publish page...");
+                while (!checkPublishPage()) {
+                    if (Date.now() - startTime > loginTimeout) {
+                        throw new LoginTimeoutError("Timeout waiting for login. Please reach the publish page manually.");
+                    }
+                    try {
+                        await page.waitForURL('**/publish/publish', { timeout: 5000 });
+                    } catch (e) {
+                        if (!checkPublishPage()) {
+                            log("Still waiting for you to reach the Publish page... (Please log in)");
+                        }
+                    }
+                }
+                log("Target page detected! Proceeding...");
+            });
+        }
+
+        await abort.runStage(taskId, 'upload', async () => {
+            if (isVideo) {
+                await uploadVideo(page, actualVideoPath, actualCoverPath);
+            } else {
+                await uploadImages(page, taskId, actualImagePaths, config.uploadTimeoutMs);
+            }
+        });
+
+        await abort.runStage(taskId, 'fill', async () => {
+            await fillTitleAndContent(page, config);
+            await insertTopicsAndMentions(page, config);
+        });
+        await abort.runStage(taskId, 'settings', () => applyNoteSettings(page, config));
+
+        if (config.mode === 'dryRun') {
+            const screenshotPath = await abort.runStage(taskId, 'preview', () => captureDryRun(page, taskId));
+            return { taskId: config.taskId, status: 'success', data: { message: '预演完成，未发布', mode: 'dryRun', screenshotPath } };
+        }
+
+        if (config.mode === 'draft') {
+            try {
+                await abort.runStage(taskId, 'draft_save', () => saveDraft(page));
+            } catch (e: any) {
+                log(`Error: ${e.message}`);
+                return { taskId: config.taskId, status: 'failed', data: { message: e.message, mode: 'draft', reason: 'draft_failed' } };
+            }
+            return { taskId: config.taskId, status: 'success', data: { message: '草稿已保存', mode: 'draft' } };
+        }
+
+        // Last chance to cancel: publishing cannot be aborted once the button is clicked
+        abort.checkpoint();
+        log("Ready to publish!!!!!!");
+
+        // Retry logic for publish button
+        const maxRetries = 3;
+        let publishSuccess = false;
+        let failure: { text: string; reason: PublishFailureReason } | null = null;
+        const noteResponse = watchNotePublishResponse(page);
+
+        try {
+            for (let attempt = 1; attempt <= maxRetries && !publishSuccess && !failure; attempt++) {
+                publishSuccess = await abort.runStage(taskId, 'publish_attempt', async () => {
+                    log(`Publish attempt ${attempt}/${maxRetries}...`);
+                    await clickPublishButton(page);
+
+                    log("Clicked publish button, checking for upload popup...");
+                    await handleUploadPopup(page, taskId);
+
+                    return abort.runStage(taskId, 'confirmation', () => waitForConfirmation(page, taskId, attempt), attempt);
+                }, attempt);
+
+                // The publish API is authoritative even if no success text was rendered
+                if (!publishSuccess && noteResponse.result?.noteId) {
+                    log("Publish confirmed via publish API response");
+                    publishSuccess = true;
+                }
+
+                if (!publishSuccess) {
+                    const errorMessage = await detectErrorMessage(page);
+                    if (errorMessage) {
+                        emitWarning(taskId, 'error_message_visible', `Error message visible after attempt ${attempt}: ${errorMessage.text}`);
+                        if (!RETRYABLE_REASONS.has(errorMessage.reason) || attempt === maxRetries) {
+                            failure = errorMessage;
+                        }
+                    }
+
+                    if (attempt < maxRetries && !failure) {
+                        log(`Waiting 3 seconds before retry...`);
+                        await pause(page, 3000);
+                    } else {
+                        // Final attempt failed, log page content for debugging
+                        await dumpPageState(page);
+                    }
+                }
+            }
+
+            await pause(page, 2000);
+            const apiResult = publishSuccess ? await noteResponse.waitForResult(5000) : noteResponse.result;
+
+            if (publishSuccess) {
+                if (!apiResult?.noteId) {
+                    emitWarning(taskId, 'note_id_missing', 'Publish succeeded but the note ID could not be captured');
+                }
+                return {
+                    taskId: config.taskId,
+                    status: 'success',
+                    data: { message: '发布成功！', noteId: apiResult?.noteId, noteUrl: apiResult?.noteUrl }
+                };
+            }
+
+            if (failure) {
+                return { taskId: config.taskId, status: 'failed', data: { message: `发布失败: ${failure.text}`, reason: failure.reason } };
+            }
+
+            if (apiResult?.error) {
+                return { taskId: config.taskId, status: 'failed', data: { message: `发布失败: ${apiResult.error}`, reason: 'api_error' } };
+            }
+
+            emitWarning(taskId, 'publish_unconfirmed', 'Publish confirmation was not detected after all attempts');
+            return { taskId: config.taskId, status: 'unconfirmed', data: { message: '未检测到发布成功提示，请检查小红书后台确认。' } };
+        } finally {
+            noteResponse.dispose();
+        }
+
+    } catch (e: any) {
+        if (e instanceof TaskCancelledError) {
+            log(e.message);
+            await resetEditor(page);
+            return cancelledResult(config, e);
+        }
+        log(`Error: ${e.message}`);
+        if (abort.submitted) {
+            return unconfirmedAfterError(config, e);
+        }
+        if (e instanceof NoteSettingsError) {
+            return { taskId: config.taskId, status: 'failed', data: { message: e.message, reason: 'settings_failed', setting: e.setting } };
+        }
+        if (e instanceof LoginTimeoutError) {
+            return { taskId: config.taskId, status: 'failed', data: { message: e.message, reason: 'not_logged_in' } };
+        }
+        if (e instanceof UploadError) {
+            return { taskId: config.taskId, status: 'failed', data: { message: e.message, reason: 'upload_failed', uploadErrors: e.failures } };
+        }
+        return { taskId: config.taskId, status: 'failed', data: { message: e.message, reason: 'error' } };
+    } finally {
+        await task.diagnostics.detach();
+        // 断开连接但不关闭浏览器 (复用的连接由调用方负责)
+        if (!options.acquireBrowser) {
+            log("Disconnecting from browser (browser remains open)...");
+            await browser.close();
+        }
+    }
+}
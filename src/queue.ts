@@ -0,0 +1,173 @@
+/**
+ * 发布任务队列
+ *
+ * 任务按提交顺序串行执行，同一账号的任务复用同一个 CDP 浏览器连接。
+ */
+
+import { Browser } from 'playwright';
+import { getAccount } from './accounts';
+import { connectCDP } from './browser';
+import { log } from './logger';
+import { runPublish } from './publish';
+import { PublishConfig, PublishResult } from './types';
+
+// cancelling: the running task was asked to stop; its result follows with status 'cancelled'
+export type CancelOutcome = 'cancelled' | 'cancelling' | 'not_found';
+
+export interface QueueStatus {
+    running: string | null;
+    queued: string[];
+}
+
+export interface TaskQueue {
+    enqueue(config: PublishConfig): string;
+    cancel(taskId: string): CancelOutcome;
+    // Drop every queued task and abort the running one
+    cancelAll(): void;
+    status(): QueueStatus;
+    drain(): Promise<void>;
+    close(): Promise<void>;
+    // Shared CDP connection for an account (e.g. for login checks between tasks)
+    browser(accountId?: string): Promise<Browser>;
+}
+
+interface QueuedTask {
+    taskId: string;
+    config: PublishConfig;
+    controller: AbortController;
+}
+
+export function createTaskQueue(onResult: (result: PublishResult) => void): TaskQueue {
+    const pending: QueuedTask[] = [];
+    let running: QueuedTask | null = null;
+    const browsers = new Map<string, Browser>();
+    let taskCounter = 0;
+    let idleWaiters: Array<() => void> = [];
+
+    // In-flight connections, so concurrent callers (a task and an API login check) share one launch
+    const connecting = new Map<string, Promise<Browser>>();
+
+    // Reconnect lazily if Chrome was closed or the CDP connection dropped between tasks
+    async function getBrowser(accountId?: string): Promise<Browser> {
+        const account = getAccount(accountId);
+        const browser = browsers.get(account.id);
+        if (browser?.isConnected()) return browser;
+
+        let inFlight = connecting.get(account.id);
+        if (!inFlight) {
+            inFlight = connectCDP(account)
+                .then(connected => {
+                    browsers.set(account.id, connected);
+                    return connected;
+                })
+                .finally(() => connecting.delete(account.id));
+            connecting.set(account.id, inFlight);
+        }
+        return inFlight;
+    }
+
+    async function dropBrowser(accountId?: string): Promise<void> {
+        const account = getAccount(accountId);
+        const browser = browsers.get(account.id);
+        browsers.delete(account.id);
+        if (browser) {
+            log(`Disconnecting from browser for account ${account.id} (browser remains open)...`);
+            await browser.close().catch(() => { });
+        }
+    }
+
+    async function execute(task: QueuedTask): Promise<PublishResult> {
+        try {
+            // runPublish asks for the browser only after validation, so invalid tasks never start Chrome
+            const result = await runPublish(task.config, {
+                acquireBrowser: () => getBrowser(task.config.accountId),
+                signal: task.controller.signal,
+            });
+            if (result.status === 'cancelled') {
+                // Operations abandoned by the cancelled task may still hold the page; start fresh next time
+                await dropBrowser(task.config.accountId);
+            }
+            return result;
+        } catch (e: any) {
+            log(`Execution error: ${e.message}`);
+            return { taskId: task.taskId, status: 'failed', data: { message: e.message, reason: 'error' } };
+        }
+    }
+
+    async function pump(): Promise<void> {
+        if (running) return;
+
+        while (pending.length > 0) {
+            running = pending.shift()!;
+            log(`Starting task ${running.taskId} (${pending.length} remaining in queue)`);
+            onResult(await execute(running));
+            running = null;
+        }
+
+        const waiters = idleWaiters;
+        idleWaiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
+    return {
+        enqueue(config: PublishConfig): string {
+            const taskId = config.taskId || `task_${Date.now()}_${++taskCounter}`;
+            if (running?.taskId === taskId || pending.some(task => task.taskId === taskId)) {
+                throw new Error(`Task ${taskId} is already queued`);
+            }
+
+            pending.push({ taskId, config: { ...config, taskId }, controller: new AbortController() });
+            log(`Queued task ${taskId} (queue length: ${pending.length})`);
+            void pump();
+            return taskId;
+        },
+
+        cancel(taskId: string): CancelOutcome {
+            if (running?.taskId === taskId) {
+                log(`Cancelling running task ${taskId}...`);
+                running.controller.abort();
+                return 'cancelling';
+            }
+            const index = pending.findIndex(task => task.taskId === taskId);
+            if (index === -1) {
+                return 'not_found';
+            }
+            pending.splice(index, 1);
+            log(`Cancelled queued task ${taskId}`);
+            onResult({ taskId, status: 'cancelled', data: { message: '任务已取消' } });
+            return 'cancelled';
+        },
+
+        cancelAll(): void {
+            pending.map(task => task.taskId).forEach(taskId => this.cancel(taskId));
+            if (running) this.cancel(running.taskId);
+        },
+
+        status(): QueueStatus {
+            return {
+                running: running?.taskId ?? null,
+                queued: pending.map(task => task.taskId),
+            };
+        },
+
+        drain(): Promise<void> {
+            if (!running && pending.length === 0) {
+                return Promise.resolve();
+            }
+            return new Promise(resolve => idleWaiters.push(resolve));
+        },
+
+        browser(accountId?: string): Promise<Browser> {
+            return getBrowser(accountId);
+        },
+
+        async close(): Promise<void> {
+            for (const [accountId, browser] of browsers) {
+                // 断开连接但不关闭浏览器
+                log(`Disconnecting from browser for account ${accountId} (browser remains open)...`);
+                await browser.close();
+            }
+            browsers.clear();
+        },
+    };
+}
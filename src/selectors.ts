@@ -0,0 +1,232 @@
+/**
+ * 选择器配置 (selector profile)
+ *
+ * 创作中心的所有元素选择器和页面文案都来自一个带版本号的 JSON 配置，
+ * 每个元素是按优先级排列的候选链，前一个失效时依次回退。
+ * 配置加载顺序: 内置默认 -> ~/.auto-tauri/selectors.json -> XHS_AGENT_SELECTORS 指定的文件，
+ * 后者按 key 覆盖前者，创作中心改版时无需重新打包。
+ */
+
+import { Locator, Page } from 'playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { getAccount } from './accounts';
+import { connectCDP, getOrCreatePage } from './browser';
+import { log, writeOutput } from './logger';
+import { AGENT_HOME } from './paths';
+import defaultProfile from './selectors.default.json';
+import { PublishFailureReason } from './types';
+import { publishUrl } from './urls';
+
+export const SELECTOR_PROFILE_VERSION = 1;
+
+const USER_PROFILE_PATH = path.join(AGENT_HOME, 'selectors.json');
+
+type AriaRole = Parameters<Page['getByRole']>[0];
+
+export type SelectorSpec =
+    | { css: string }
+    | { text: string; exact?: boolean }
+    | { role: AriaRole; name: string; exact?: boolean };
+
+export interface SelectorProfile {
+    version: number;
+    revision: string;
+    elements: Record<string, SelectorSpec[]>;
+    texts: Record<string, string[]>;
+    publishErrors: Partial<Record<PublishFailureReason, string[]>>;
+}
+
+type ProfileOverride = Partial<SelectorProfile>;
+
+let activeProfile: SelectorProfile | null = null;
+
+function readOverride(filePath: string): ProfileOverride {
+    let override: ProfileOverride;
+    try {
+        override = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (e: any) {
+        throw new Error(`Failed to read selector profile ${filePath}: ${e.message}`);
+    }
+    if (override.version !== SELECTOR_PROFILE_VERSION) {
+        throw new Error(`Selector profile ${filePath} has version ${override.version}, expected ${SELECTOR_PROFILE_VERSION}`);
+    }
+    return override;
+}
+
+function mergeProfile(base: SelectorProfile, override: ProfileOverride): SelectorProfile {
+    return {
+        version: base.version,
+        revision: override.revision ?? base.revision,
+        elements: { ...base.elements, ...override.elements },
+        texts: { ...base.texts, ...override.texts },
+        publishErrors: { ...base.publishErrors, ...override.publishErrors },
+    };
+}
+
+// Load (or reload) the active profile; overridePath defaults to XHS_AGENT_SELECTORS
+export function loadSelectorProfile(overridePath = process.env.XHS_AGENT_SELECTORS): SelectorProfile {
+    let profile = defaultProfile as SelectorProfile;
+    const sources = ['default'];
+
+    if (fs.existsSync(USER_PROFILE_PATH)) {
+        profile = mergeProfile(profile, readOverride(USER_PROFILE_PATH));
+        sources.push(USER_PROFILE_PATH);
+    }
+    if (overridePath) {
+        profile = mergeProfile(profile, readOverride(overridePath));
+        sources.push(overridePath);
+    }
+
+    activeProfile = profile;
+    log(`Selector profile loaded (revision ${profile.revision}, sources: ${sources.join(' + ')})`);
+    return profile;
+}
+
+export function getSelectorProfile(): SelectorProfile {
+    return activeProfile ?? loadSelectorProfile();
+}
+
+// ============================================================================
+// 元素定位
+// ============================================================================
+
+function toLocator(root: Page | Locator, spec: SelectorSpec): Locator {
+    if ('css' in spec) return root.locator(spec.css);
+    if ('role' in spec) return root.getByRole(spec.role, { name: spec.name, exact: spec.exact });
+    return root.getByText(spec.text, { exact: spec.exact });
+}
+
+function chain(key: string): SelectorSpec[] {
+    const specs = getSelectorProfile().elements[key];
+    if (!specs || specs.length === 0) {
+        throw new Error(`Selector profile has no entries for element "${key}"`);
+    }
+    return specs;
+}
+
+export function selectorTexts(key: string): string[] {
+    return getSelectorProfile().texts[key] ?? [];
+}
+
+export function publishErrorTexts(): Array<[string, PublishFailureReason]> {
+    return Object.entries(getSelectorProfile().publishErrors)
+        .flatMap(([reason, texts]) => (texts ?? []).map(text => [text, reason as PublishFailureReason] as [string, PublishFailureReason]));
+}
+
+// All candidate locators for an element, in fallback order
+export function locators(page: Page, key: string): Locator[] {
+    return chain(key).map(spec => toLocator(page, spec));
+}
+
+// Candidates scoped to a parent element (e.g. the reply button of one list item)
+export function locatorsIn(parent: Locator, key: string): Locator[] {
+    return chain(key).map(spec => toLocator(parent, spec));
+}
+
+// First candidate with a visible match, polling up to timeoutMs
+export async function findVisible(page: Page, key: string, timeoutMs = 0): Promise<Locator | null> {
+    const candidates = locators(page, key);
+    const startTime = Date.now();
+    do {
+        for (const locator of candidates) {
+            try {
+                if (await locator.first().isVisible()) return locator;
+            } catch { }
+        }
+        if (timeoutMs > 0) await page.waitForTimeout(200);
+    } while (Date.now() - startTime < timeoutMs);
+    return null;
+}
+
+// First candidate attached to the DOM (e.g. hidden file inputs), polling up to timeoutMs
+export async function findAttached(page: Page, key: string, timeoutMs = 0): Promise<Locator> {
+    const candidates = locators(page, key);
+    const startTime = Date.now();
+    do {
+        for (const locator of candidates) {
+            try {
+                if (await locator.count() > 0) return locator;
+            } catch { }
+        }
+        await page.waitForTimeout(250);
+    } while (Date.now() - startTime < timeoutMs);
+    throw new Error(`Element "${key}" not found (tried ${candidates.length} selector(s))`);
+}
+
+// Largest match count across candidates (candidates may target different page versions)
+export async function countMatches(page: Page, key: string): Promise<number> {
+    let max = 0;
+    for (const locator of locators(page, key)) {
+        try {
+            max = Math.max(max, await locator.count());
+        } catch { }
+    }
+    return max;
+}
+
+// First text from the profile's text list that is visible on the page
+export async function findVisibleText(page: Page, key: string, exact = false): Promise<string | null> {
+    for (const text of selectorTexts(key)) {
+        try {
+            if (await page.getByText(text, { exact }).first().isVisible()) return text;
+        } catch { }
+    }
+    return null;
+}
+
+// ============================================================================
+// selectors check 命令
+// ============================================================================
+
+/**
+ * selectors check [--account <id>] [--url <url>] [--profile <path>]
+ * 在当前登录的页面上逐项检查选择器，报告每个元素由哪一条候选命中。
+ */
+export async function runSelectorsCommand(args: string[]): Promise<boolean> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            account: { type: 'string' },
+            url: { type: 'string' },
+            profile: { type: 'string' },
+        },
+    });
+    if (positionals[0] !== 'check') {
+        throw new Error('Usage: selectors check [--account <id>] [--url <url>] [--profile <path>]');
+    }
+
+    const profile = loadSelectorProfile(values.profile ?? process.env.XHS_AGENT_SELECTORS);
+    const browser = await connectCDP(getAccount(values.account));
+
+    try {
+        const page = await getOrCreatePage(browser);
+        await page.goto(values.url ?? publishUrl(), { waitUntil: 'networkidle', timeout: 60000 });
+
+        const elements = [];
+        for (const [key, specs] of Object.entries(profile.elements)) {
+            const entries = [];
+            for (const spec of specs) {
+                const locator = toLocator(page, spec);
+                const count = await locator.count().catch(() => 0);
+                const visible = count > 0 && await locator.first().isVisible().catch(() => false);
+                entries.push({ spec, count, visible });
+            }
+            const matchedIndex = entries.findIndex(entry => entry.count > 0);
+            elements.push({ key, resolved: matchedIndex !== -1, matchedIndex, entries });
+        }
+
+        const texts = [];
+        for (const key of Object.keys(profile.texts)) {
+            texts.push({ key, visible: await findVisibleText(page, key) });
+        }
+
+        const unresolved = elements.filter(e => !e.resolved).map(e => e.key);
+        writeOutput({ type: 'selectors_check', url: page.url(), revision: profile.revision, elements, texts, unresolved });
+        return unresolved.length === 0;
+    } finally {
+        await browser.close();
+    }
+}
@@ -0,0 +1,349 @@
+/**
+ * HTTP API 模式 (serve)
+ *
+ * 在 127.0.0.1 上提供本地 HTTP API，多个前端 / 脚本共用同一个 agent 进程和任务队列。
+ * 除 /health 外所有请求都需要 Authorization: Bearer <token>
+ * (EventSource 无法设置请求头，仅 SSE 路由额外接受 ?token=)。
+ * 端口和 token 写入 ~/.auto-tauri/server.json (仅当前用户可读)，供调用方发现。
+ *
+ * GET  /health                    存活检查 (无需 token)
+ * POST /tasks                     提交发布任务 (body: PublishConfig)
+ * GET  /tasks                     任务列表
+ * GET  /tasks/:id                 任务状态和结果
+ * GET  /tasks/:id/events          任务事件 (SSE，先回放已有事件，任务结束时发送 result 并关闭)
+ * POST /tasks/:id/cancel          取消任务 (运行中的任务在下一个检查点中止)
+ * GET  /accounts/:id/login        账号登录状态
+ */
+
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as net from 'net';
+import { parseArgs } from 'util';
+import { getAccount } from './accounts';
+import { AgentEvent, onEvent } from './events';
+import { log, writeOutput } from './logger';
+import { checkLoginStatus } from './login';
+import { AGENT_HOME } from './paths';
+import { createTaskQueue } from './queue';
+import { PublishConfig, PublishResult } from './types';
+
+export const DEFAULT_SERVER_PORT = 17890;
+export const SERVER_INFO_FILE = path.join(AGENT_HOME, 'server.json');
+
+// Origins of the desktop (Tauri) webview; more can be allowed with --allow-origin / XHS_AGENT_ALLOWED_ORIGINS
+const DEFAULT_ALLOWED_ORIGINS = ['tauri://localhost', 'http://tauri.localhost', 'https://tauri.localhost'];
+
+// data URI images can make publish requests large
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+// Finished tasks kept for status / event replay
+const MAX_FINISHED_TASKS = 200;
+const SSE_KEEPALIVE_MS = 15000;
+
+export type TaskState = 'queued' | 'running' | 'finished';
+
+interface TaskRecord {
+    taskId: string;
+    title?: string;
+    accountId?: string;
+    submittedAt: string;
+    finishedAt?: string;
+    result?: PublishResult;
+    events: AgentEvent[];
+    subscribers: Set<http.ServerResponse>;
+}
+
+class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+            } catch (e: any) {
+                reject(new HttpError(400, `Invalid JSON body: ${e.message}`));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+function tokenMatches(expected: string, provided: string | null | undefined): boolean {
+    if (!provided) return false;
+    const a = Buffer.from(expected);
+    const b = Buffer.from(provided);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+function isLoopbackHost(host: string): boolean {
+    if (host === 'localhost' || host === '::1' || host === '[::1]') return true;
+    return net.isIPv4(host) && host.startsWith('127.');
+}
+
+function writeServerInfo(info: object): void {
+    fs.mkdirSync(AGENT_HOME, { recursive: true });
+    fs.writeFileSync(SERVER_INFO_FILE, JSON.stringify(info, null, 2), { mode: 0o600 });
+}
+
+/**
+ * serve [--port <port>] [--host <host>] [--token <token>] [--allow-origin <origin>]... [--allow-remote]
+ * token 缺省取 XHS_AGENT_TOKEN，否则随机生成。
+ * 非回环地址需显式 --allow-remote；跨域只放行桌面端 webview 和 --allow-origin 指定的来源。
+ */
+export async function runServer(args: string[]): Promise<void> {
+    const { values } = parseArgs({
+        args,
+        options: {
+            port: { type: 'string' },
+            host: { type: 'string' },
+            token: { type: 'string' },
+            'allow-origin': { type: 'string', multiple: true },
+            'allow-remote': { type: 'boolean' },
+        },
+    });
+    const port = values.port ? Number(values.port) : DEFAULT_SERVER_PORT;
+    const host = values.host ?? '127.0.0.1';
+    if (!isLoopbackHost(host) && !values['allow-remote']) {
+        throw new Error(`Refusing to listen on non-loopback host ${host}; pass --allow-remote to expose the API to the network`);
+    }
+    const allowedOrigins = new Set([
+        ...DEFAULT_ALLOWED_ORIGINS,
+        ...(process.env.XHS_AGENT_ALLOWED_ORIGINS?.split(/[\s,]+/).filter(Boolean) ?? []),
+        ...(values['allow-origin'] ?? []),
+    ]);
+    const token = values.token ?? process.env.XHS_AGENT_TOKEN ?? crypto.randomBytes(24).toString('hex');
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port: ${values.port}`);
+    }
+
+    const tasks = new Map<string, TaskRecord>();
+
+    const sendSse = (res: http.ServerResponse, event: string, data: object) => {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    const queue = createTaskQueue(result => {
+        const record = result.taskId ? tasks.get(result.taskId) : undefined;
+        if (!record) return;
+        record.result = result;
+        record.finishedAt = new Date().toISOString();
+        record.subscribers.forEach(res => {
+            sendSse(res, 'result', result);
+            res.end();
+        });
+        record.subscribers.clear();
+
+        // Forget the oldest finished tasks beyond the retention limit
+        const finished = [...tasks.values()].filter(t => t.result);
+        finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_TASKS)).forEach(t => tasks.delete(t.taskId));
+    });
+
+    onEvent(event => {
+        const record = event.taskId ? tasks.get(event.taskId) : undefined;
+        if (!record) return;
+        record.events.push(event);
+        record.subscribers.forEach(res => sendSse(res, 'event', event));
+    });
+
+    const stateOf = (record: TaskRecord): TaskState =>
+        record.result ? 'finished' : queue.status().running === record.taskId ? 'running' : 'queued';
+
+    const describe = (record: TaskRecord) => ({
+        taskId: record.taskId,
+        state: stateOf(record),
+        title: record.title,
+        accountId: record.accountId,
+        submittedAt: record.submittedAt,
+        finishedAt: record.finishedAt,
+        position: record.result ? undefined : queue.status().queued.indexOf(record.taskId) + 1 || undefined,
+        result: record.result,
+    });
+
+    const getRecord = (taskId: string): TaskRecord => {
+        const record = tasks.get(taskId);
+        if (!record) throw new HttpError(404, `Unknown task: ${taskId}`);
+        return record;
+    };
+
+    async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', `http://${req.headers.host ?? host}`);
+        const method = req.method ?? 'GET';
+        const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+        if (method === 'GET' && url.pathname === '/health') {
+            sendJson(res, 200, { status: 'ok', pid: process.pid });
+            return;
+        }
+
+        // Only the SSE route takes ?token= (EventSource cannot set headers); elsewhere it would end up in URLs and logs
+        const isEventStream = method === 'GET' && segments[0] === 'tasks' && segments[2] === 'events' && segments.length === 3;
+        const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+        if (!tokenMatches(token, bearer ?? (isEventStream ? url.searchParams.get('token') : null))) {
+            throw new HttpError(401, 'Missing or invalid bearer token');
+        }
+
+        if (segments[0] === 'tasks' && segments.length === 1) {
+            if (method === 'POST') {
+                const config: PublishConfig = await readJsonBody(req);
+                if (!config || typeof config !== 'object' || Array.isArray(config)) {
+                    throw new HttpError(400, 'Body must be a publish config object');
+                }
+                if (config.taskId && tasks.has(config.taskId) && !tasks.get(config.taskId)!.result) {
+                    throw new HttpError(409, `Task ${config.taskId} is already queued`);
+                }
+                // Register before enqueueing so the first stage events are captured
+                const taskId = config.taskId || `task_${Date.now()}_${crypto.randomBytes(3).toString('hex')}`;
+                const record: TaskRecord = {
+                    taskId,
+                    title: config.title,
+                    accountId: config.accountId,
+                    submittedAt: new Date().toISOString(),
+                    events: [],
+                    subscribers: new Set(),
+                };
+                tasks.set(taskId, record);
+                try {
+                    queue.enqueue({ ...config, taskId });
+                } catch (e: any) {
+                    tasks.delete(taskId);
+                    throw new HttpError(409, e.message);
+                }
+                sendJson(res, 202, describe(record));
+                return;
+            }
+            if (method === 'GET') {
+                sendJson(res, 200, { tasks: [...tasks.values()].map(describe) });
+                return;
+            }
+        }
+
+        if (segments[0] === 'tasks' && segments.length === 2 && method === 'GET') {
+            sendJson(res, 200, describe(getRecord(segments[1])));
+            return;
+        }
+
+        if (segments[0] === 'tasks' && segments[2] === 'events' && segments.length === 3 && method === 'GET') {
+            const record = getRecord(segments[1]);
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+            });
+            record.events.forEach(event => sendSse(res, 'event', event));
+            if (record.result) {
+                sendSse(res, 'result', record.result);
+                res.end();
+                return;
+            }
+            record.subscribers.add(res);
+            const keepalive = setInterval(() => res.write(': keepalive\n\n'), SSE_KEEPALIVE_MS);
+            res.on('close', () => {
+                clearInterval(keepalive);
+                record.subscribers.delete(res);
+            });
+            return;
+        }
+
+        if (segments[0] === 'tasks' && segments[2] === 'cancel' && segments.length === 3 && method === 'POST') {
+            const record = getRecord(segments[1]);
+            const outcome = record.result ? 'finished' : queue.cancel(record.taskId);
+            const status = outcome === 'cancelled' ? 200 : outcome === 'cancelling' ? 202 : 409;
+            sendJson(res, status, { taskId: record.taskId, result: outcome });
+            return;
+        }
+
+        if (segments[0] === 'accounts' && segments[2] === 'login' && segments.length === 3 && method === 'GET') {
+            let account;
+            try {
+                account = getAccount(segments[1]);
+            } catch (e: any) {
+                throw new HttpError(404, e.message);
+            }
+            // Use a separate tab so a publish running on the same account is not disturbed
+            const browser = await queue.browser(account.id);
+            const context = browser.contexts()[0] ?? await browser.newContext();
+            const page = await context.newPage();
+            try {
+                sendJson(res, 200, { accountId: account.id, ...(await checkLoginStatus(page)) });
+            } finally {
+                await page.close();
+            }
+            return;
+        }
+
+        throw new HttpError(404, `No route for ${method} ${url.pathname}`);
+    }
+
+    const server = http.createServer((req, res) => {
+        // The desktop webview calls from its own origin; other web pages get no CORS access
+        const origin = req.headers.origin;
+        res.setHeader('Vary', 'Origin');
+        if (origin && allowedOrigins.has(origin)) {
+            res.setHeader('Access-Control-Allow-Origin', origin);
+            res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+            res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        }
+        if (req.method === 'OPTIONS') {
+            res.writeHead(origin && allowedOrigins.has(origin) ? 204 : 403);
+            res.end();
+            return;
+        }
+
+        handle(req, res).catch((e: any) => {
+            const status = e instanceof HttpError ? e.status : 500;
+            if (status === 500) log(`API error on ${req.method} ${req.url?.split('?')[0]}: ${e.message}`);
+            if (res.headersSent) {
+                res.end();
+            } else {
+                sendJson(res, status, { error: e.message });
+            }
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => resolve());
+    });
+
+    const address = server.address() as { port: number };
+    const serverUrl = `http://${host}:${address.port}`;
+    writeServerInfo({ url: serverUrl, port: address.port, pid: process.pid, token });
+    log(`HTTP API listening on ${serverUrl} (token in ${SERVER_INFO_FILE})`);
+    writeOutput({ type: 'ready', url: serverUrl, port: address.port, pid: process.pid, infoFile: SERVER_INFO_FILE });
+
+    await new Promise<void>(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+    });
+
+    log("Shutting down HTTP API, cancelling queued and running tasks...");
+    queue.cancelAll();
+    await queue.drain();
+    server.close();
+    server.closeAllConnections();
+    await queue.close();
+    fs.rmSync(SERVER_INFO_FILE, { force: true });
+    writeOutput({ type: 'shutdown' });
+}
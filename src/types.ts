@@ -0,0 +1,107 @@
+/**
+ * 发布任务类型定义
+ */
+
+// publish: 正常发布; dryRun: 填写后截图但不发布; draft: 保存为草稿
+export type PublishMode = 'publish' | 'dryRun' | 'draft';
+
+export type NoteVisibility = 'public' | 'private' | 'friends';
+
+export type ImageAspect = '3:4' | '1:1';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+// 上传前的图片预处理 (重新编码会同时去除 EXIF / GPS 等元数据)
+export interface ImagePreprocessOptions {
+    format?: 'jpeg' | 'png';    // Output format (default: jpeg)
+    quality?: number;           // JPEG quality 0-1 (default: 0.92)
+    maxSide?: number;           // Longer side limit in px (default: 4096)
+    aspect?: ImageAspect;       // Crop or pad to this width:height ratio
+    fit?: 'crop' | 'pad';       // How to reach the aspect ratio (default: crop)
+    background?: string;        // Pad / transparency fill color (default: #ffffff)
+    watermark?: {
+        text: string;
+        position?: WatermarkPosition; // Default: bottom-right
+        opacity?: number;       // 0-1 (default: 0.6)
+        color?: string;         // Default: #ffffff
+        fontSize?: number;      // px; default: 4% of the shorter side
+    };
+}
+
+// onFailure: 失败 / 未确认时保留诊断包 (默认); always: 始终保留; off: 不采集
+export type DiagnosticsMode = 'onFailure' | 'always' | 'off';
+
+// 拟人化交互 (鼠标轨迹 / 逐字输入 / 随机停顿)
+export interface HumanizeOptions {
+    enabled?: boolean;                 // Default: true (XHS_AGENT_HUMANIZE=0 disables it globally)
+    typingDelayMs?: [number, number];  // Per-character delay range, default [60, 180]
+    pauseFactor?: [number, number];    // Each fixed pause is scaled by a random factor in this range, default [0.8, 1.6]
+}
+
+// warn: 同账号发布过相同内容时仅警告 (默认); reject: 拒绝发布
+export type DuplicateContentPolicy = 'warn' | 'reject';
+
+export interface PublishConfig {
+    imagePaths?: string[];  // Array of image paths/URLs
+    imagePath?: string;     // Single image path (backward compatibility)
+    videoPath?: string;     // Video path/URL/data URI (switches to video note)
+    coverPath?: string;     // Optional custom cover image for video notes
+    uploadTimeoutMs?: number; // Max wait for image uploads to complete (default 120s)
+    loginTimeoutMs?: number;  // Max wait for QR code login when logged out (default 120s)
+    deadlineMs?: number;      // Overall time budget from task start; the task is cancelled when exceeded
+    title: string;
+    content: string;
+    taskId?: string;
+    accountId?: string;     // Account profile to publish with (default: 'default')
+    mode?: PublishMode;     // Default: 'publish'
+    topics?: string[];      // Topic names (without '#'), picked from the editor's suggestions
+    mentions?: string[];    // User nicknames (without '@'), picked from the editor's suggestions
+    location?: string;      // Location search keyword, first matching result is used
+    visibility?: NoteVisibility; // Default: 'public'
+    original?: boolean;     // 原创声明
+    scheduledAt?: string;   // ISO 8601 time for 定时发布
+    preprocess?: ImagePreprocessOptions; // Convert / resize / crop images before upload (images only)
+    diagnostics?: DiagnosticsMode; // Per-task diagnostics bundle (default: onFailure)
+    duplicateContent?: DuplicateContentPolicy; // Same content already published on this account (default: warn)
+    humanize?: boolean | HumanizeOptions; // Human-like mouse / typing / pauses (default: enabled)
+}
+
+// unconfirmed: 已点击发布但既未检测到成功也未检测到错误; cancelled: 被取消或超过 deadlineMs
+export type PublishStatus = 'success' | 'failed' | 'unconfirmed' | 'cancelled';
+
+export type PublishFailureReason =
+    | 'publish_failed'
+    | 'rate_limited'
+    | 'network_error'
+    | 'not_logged_in'
+    | 'content_violation'
+    | 'review_rejected'
+    | 'api_error'
+    | 'upload_failed'
+    | 'validation_failed'
+    | 'draft_failed'
+    | 'settings_failed'
+    | 'cancelled'
+    | 'deadline_exceeded'
+    | 'duplicate_task'
+    | 'duplicate_content'
+    | 'error';
+
+export interface PublishResultData {
+    message: string;
+    noteId?: string;
+    noteUrl?: string;
+    mode?: PublishMode;
+    screenshotPath?: string;
+    diagnosticsPath?: string; // Diagnostics bundle directory (failed / unconfirmed results)
+    reason?: PublishFailureReason;
+    duplicate?: boolean;      // taskId was already published; noteId / noteUrl come from the ledger
+    retryAt?: string;         // rate_limited by the account's limits: earliest time to retry
+    [key: string]: unknown;
+}
+
+export interface PublishResult {
+    taskId?: string;
+    status: PublishStatus;
+    data: PublishResultData;
+}
@@ -0,0 +1,396 @@
+/**
+ * 上传步骤
+ *
+ * 图文: 通过缩略图数量、上传请求结果和失败标记判断上传是否真正完成。
+ * 视频: 等待上传和转码完成后再设置封面。
+ */
+
+import { Page, Request, Response } from 'playwright';
+import * as path from 'path';
+import { emitEvent } from './events';
+import { humanClick, pause } from './humanize';
+import { log } from './logger';
+import { countMatches, findAttached, findVisible, findVisibleText, locators } from './selectors';
+
+// 视频上传 + 转码最长等待时间
+const VIDEO_PROCESS_TIMEOUT = 10 * 60 * 1000;
+
+// 图片上传默认最长等待时间 (可通过 PublishConfig.uploadTimeoutMs 覆盖)
+export const DEFAULT_IMAGE_UPLOAD_TIMEOUT = 120 * 1000;
+
+export interface UploadFailure {
+    index: number;
+    fileName: string;
+    message: string;
+}
+
+export class UploadError extends Error {
+    constructor(message: string, public readonly failures: UploadFailure[]) {
+        super(message);
+        this.name = 'UploadError';
+    }
+}
+
+// ============================================================================
+// 上传进度跟踪
+// ============================================================================
+
+type UploadSignal = 'progress' | 'done' | 'error';
+
+interface FileUploadState {
+    percent: number;
+    done: boolean;
+    // Last failed attempt; cleared when the page retries the file
+    error?: string;
+    errorAt?: number;
+}
+
+interface UploadTracker {
+    files: FileUploadState[];
+    // Upload responses seen on the network (covers uploads not made through XHR)
+    networkCompleted: number;
+    lastNetworkError: { message: string; at: number } | null;
+    lastRequestAt: number;
+    dispose(): void;
+}
+
+// The creator center retries failed uploads itself; a failure only counts once no retry followed it for this long
+const UPLOAD_RETRY_GRACE_MS = 10 * 1000;
+
+// 图片上传接口 (ros-upload / spectrum 等存储服务)
+const UPLOAD_URL_PATTERNS = [
+    /ros-upload\.xiaohongshu\.com/,
+    /\/api\/media\/v\d+\/upload/,
+    // Only spectrum storage hosts, not any URL that merely contains the word
+    /^https:\/\/[^/?#]*spectrum[^/?#]*\.(xiaohongshu|xhscdn)\.com\//,
+];
+
+// Upload callback for the page currently being tracked
+let activeUploadListener: ((index: number, fileName: string | null, signal: UploadSignal, value: number | string) => void) | null = null;
+const pagesWithProgressBinding = new WeakSet<Page>();
+
+// Hook XMLHttpRequest uploads in the page and report per-file progress (in upload order)
+async function trackUploads(page: Page, taskId: string | undefined, filePaths: string[]): Promise<UploadTracker> {
+    const files: FileUploadState[] = filePaths.map(() => ({ percent: 0, done: false }));
+    const lastReported = new Map<number, number>();
+
+    const report = (index: number) => {
+        const percent = files[index].percent;
+        const previous = lastReported.get(index) ?? -1;
+        if (percent <= previous || (percent < 100 && percent - previous < 10)) return;
+        lastReported.set(index, percent);
+        emitEvent(taskId, {
+            event: 'upload_progress',
+            index,
+            total: files.length,
+            fileName: path.basename(filePaths[index]),
+            percent,
+        });
+    };
+
+    // Retries are new XHRs with new indexes; match them back to a file by name
+    const fileNames = filePaths.map(filePath => path.basename(filePath));
+    const resolveIndex = (index: number, fileName: string | null): number => {
+        if (index < files.length && (!fileName || fileNames[index] === fileName)) return index;
+        const candidates = fileNames.map((name, i) => ({ name, i })).filter(({ name, i }) => name === fileName && !files[i].done);
+        const byName = (candidates.find(({ i }) => files[i].error) ?? candidates[0])?.i;
+        // Pages that upload renamed blobs fall back to upload order
+        return byName ?? (index < files.length ? index : -1);
+    };
+
+    activeUploadListener = (rawIndex, fileName, signal, value) => {
+        const index = resolveIndex(rawIndex, fileName);
+        if (index < 0) return;
+        const state = files[index];
+        if (signal === 'progress') {
+            state.percent = Math.max(state.percent, Number(value));
+            state.error = undefined;
+            state.errorAt = undefined;
+        } else if (signal === 'done') {
+            const status = Number(value);
+            if (status >= 200 && status < 300) {
+                state.percent = 100;
+                state.done = true;
+                state.error = undefined;
+                state.errorAt = undefined;
+            } else if (!state.done) {
+                state.error = `HTTP ${status}`;
+                state.errorAt = Date.now();
+            }
+        } else if (!state.done) {
+            state.error = String(value);
+            state.errorAt = Date.now();
+        }
+        report(index);
+    };
+
+    const tracker: UploadTracker = {
+        files,
+        networkCompleted: 0,
+        lastNetworkError: null,
+        lastRequestAt: 0,
+        dispose() {
+            activeUploadListener = null;
+            page.off('request', onRequest);
+            page.off('response', onResponse);
+        },
+    };
+
+    const isUploadRequest = (request: Request) =>
+        (request.method() === 'PUT' || request.method() === 'POST') && UPLOAD_URL_PATTERNS.some(p => p.test(request.url()));
+    const onRequest = (request: Request) => {
+        if (isUploadRequest(request)) tracker.lastRequestAt = Date.now();
+    };
+    const onResponse = (response: Response) => {
+        if (!isUploadRequest(response.request())) return;
+        if (response.ok()) {
+            tracker.networkCompleted++;
+        } else {
+            tracker.lastNetworkError = { message: `HTTP ${response.status()} ${response.url().split('?')[0]}`, at: Date.now() };
+        }
+    };
+    page.on('request', onRequest);
+    page.on('response', onResponse);
+
+    // Bindings survive navigations, so each reused page only needs it once
+    if (!pagesWithProgressBinding.has(page)) {
+        await page.exposeBinding('__xhsAgentUpload', (_source, index: number, fileName: string | null, signal: UploadSignal, value: number | string) => {
+            activeUploadListener?.(index, fileName, signal, value);
+        });
+        pagesWithProgressBinding.add(page);
+    }
+
+    await page.evaluate(() => {
+        const w = window as any;
+        w.__xhsAgentUploadCounter = 0;
+        if (w.__xhsAgentXhrPatched) return;
+        w.__xhsAgentXhrPatched = true;
+
+        const isFileBody = (body: unknown) =>
+            body instanceof Blob ||
+            (body instanceof FormData && Array.from(body.values()).some(value => value instanceof Blob));
+        const fileNameOf = (body: unknown): string | null => {
+            if (body instanceof File) return body.name;
+            if (!(body instanceof FormData)) return null;
+            const file = Array.from(body.values()).find(value => value instanceof File) as File | undefined;
+            return file?.name ?? null;
+        };
+
+        const originalSend = XMLHttpRequest.prototype.send;
+        XMLHttpRequest.prototype.send = function (body?: Document | XMLHttpRequestBodyInit | null) {
+            if (isFileBody(body)) {
+                const index = w.__xhsAgentUploadCounter++;
+                const name = fileNameOf(body);
+                const report = (signal: string, value: number | string) => w.__xhsAgentUpload(index, name, signal, value);
+                report('progress', 0);
+                this.upload.addEventListener('progress', (e: ProgressEvent) => {
+                    if (e.lengthComputable) {
+                        report('progress', Math.round(e.loaded / e.total * 100));
+                    }
+                });
+                this.addEventListener('load', () => report('done', this.status));
+                this.addEventListener('error', () => report('error', 'network error'));
+                this.addEventListener('timeout', () => report('error', 'timeout'));
+                this.addEventListener('abort', () => report('error', 'aborted'));
+            }
+            return originalSend.call(this, body);
+        };
+    });
+
+    return tracker;
+}
+
+// ============================================================================
+// 图文上传
+// ============================================================================
+
+async function isStillUploading(page: Page): Promise<boolean> {
+    if (await findVisible(page, 'uploadingIndicator')) return true;
+    return (await findVisibleText(page, 'uploading')) !== null;
+}
+
+// Files whose last attempt failed and was not retried within the grace period
+function collectFailures(tracker: UploadTracker, filePaths: string[], now = Date.now()): UploadFailure[] {
+    const failures = tracker.files
+        .map((state, index) => ({ state, index }))
+        .filter(({ state }) => !state.done && state.error && now - state.errorAt! > UPLOAD_RETRY_GRACE_MS)
+        .map(({ state, index }) => ({ index, fileName: path.basename(filePaths[index]), message: state.error! }));
+    // Rejected upload requests that were not made through XHR cannot be tied to a file
+    const networkError = tracker.lastNetworkError;
+    const xhrTracked = tracker.files.some(state => state.done || state.error || state.percent > 0);
+    if (failures.length === 0 && !xhrTracked && networkError && tracker.lastRequestAt <= networkError.at
+        && tracker.networkCompleted < filePaths.length && now - networkError.at > UPLOAD_RETRY_GRACE_MS) {
+        failures.push({ index: -1, fileName: '', message: `upload request rejected: ${networkError.message}` });
+    }
+    return failures;
+}
+
+async function waitForImageUploads(page: Page, tracker: UploadTracker, filePaths: string[], timeoutMs: number): Promise<void> {
+    const total = filePaths.length;
+    const startTime = Date.now();
+    let lastLog = 0;
+
+    while (Date.now() - startTime < timeoutMs) {
+        await page.waitForTimeout(1000);
+
+        const failures = collectFailures(tracker, filePaths);
+        const failedThumbnails = await countMatches(page, 'thumbnailFailed');
+        if (failures.length > 0 || failedThumbnails > 0) {
+            if (failures.length === 0) {
+                failures.push({ index: -1, fileName: '', message: `${failedThumbnails} thumbnail(s) marked as failed` });
+            }
+            throw new UploadError(
+                `Image upload failed: ${failures.map(f => f.index >= 0 ? `#${f.index + 1} ${f.fileName} (${f.message})` : f.message).join('; ')}`,
+                failures
+            );
+        }
+
+        // Thumbnail candidates target different page versions, so take the largest count
+        const thumbnails = await countMatches(page, 'thumbnail');
+        const xhrCompleted = tracker.files.filter(state => state.done).length;
+        const completed = Math.max(xhrCompleted, tracker.networkCompleted);
+        // Without any observed upload requests, rely on thumbnails + indicators alone
+        const networkDone = completed >= total || (xhrCompleted === 0 && tracker.networkCompleted === 0);
+
+        if (thumbnails >= total && networkDone && !(await isStillUploading(page))) {
+            log(`All ${total} images uploaded after ${Math.round((Date.now() - startTime) / 1000)}s (thumbnails: ${thumbnails}, completed requests: ${completed})`);
+            return;
+        }
+
+        if (Date.now() - lastLog > 5000) {
+            lastLog = Date.now();
+            log(`Upload waiting... ${Math.round((Date.now() - startTime) / 1000)}s elapsed (thumbnails: ${thumbnails}/${total}, completed requests: ${completed}/${total})`);
+        }
+    }
+
+    const pending = tracker.files
+        .map((state, index) => ({ state, index }))
+        .filter(({ state }) => !state.done)
+        .map(({ state, index }) => ({
+            index,
+            fileName: path.basename(filePaths[index]),
+            message: state.error ? `upload did not complete (last attempt: ${state.error})` : 'upload did not complete',
+        }));
+    throw new UploadError(`Timeout waiting for image upload after ${Math.round(timeoutMs / 1000)}s`, pending);
+}
+
+export async function uploadImages(
+    page: Page,
+    taskId: string | undefined,
+    actualImagePaths: string[],
+    timeoutMs = DEFAULT_IMAGE_UPLOAD_TIMEOUT
+): Promise<void> {
+    log("Looking for upload area...");
+    const imageTab = await findVisible(page, 'imageTab');
+    if (imageTab) {
+        log("Clicking '上传图文' tab...");
+        await humanClick(page, imageTab.first());
+        await pause(page, 2000);
+    }
+
+    // Upload ALL images at once using setInputFiles with array
+    log(`Uploading ${actualImagePaths.length} images...`);
+    const fileInput = await findAttached(page, 'fileInput', 30000);
+
+    const tracker = await trackUploads(page, taskId, actualImagePaths);
+    try {
+        await fileInput.first().setInputFiles(actualImagePaths);  // Upload all images at once
+        await waitForImageUploads(page, tracker, actualImagePaths, timeoutMs);
+    } catch (e) {
+        if (e instanceof UploadError) {
+            e.failures.filter(f => f.index >= 0).forEach(f => emitEvent(taskId, {
+                event: 'upload_error',
+                index: f.index,
+                total: actualImagePaths.length,
+                fileName: f.fileName,
+                message: f.message,
+            }));
+        }
+        throw e;
+    } finally {
+        tracker.dispose();
+    }
+}
+
+// ============================================================================
+// 视频上传
+// ============================================================================
+
+// 等待视频上传和转码真正完成 (出现成功标识且无处理中提示)
+async function waitForVideoProcessed(page: Page): Promise<void> {
+    const startTime = Date.now();
+    let lastLog = 0;
+
+    while (Date.now() - startTime < VIDEO_PROCESS_TIMEOUT) {
+        const failedText = await findVisibleText(page, 'videoFailed');
+        if (failedText) {
+            throw new Error(`Video upload failed: ${failedText}`);
+        }
+
+        const processingText = await findVisibleText(page, 'videoProcessing');
+        const readyText = await findVisibleText(page, 'videoReady');
+        if (readyText && !processingText) {
+            log(`Video processing complete (detected "${readyText}") after ${Math.round((Date.now() - startTime) / 1000)}s`);
+            return;
+        }
+
+        if (Date.now() - lastLog > 10000) {
+            lastLog = Date.now();
+            log(`Video still processing${processingText ? ` ("${processingText}")` : ''}... ${Math.round((Date.now() - startTime) / 1000)}s elapsed`);
+        }
+        await page.waitForTimeout(2000);
+    }
+
+    throw new Error(`Timeout waiting for video processing after ${VIDEO_PROCESS_TIMEOUT / 1000}s`);
+}
+
+async function setVideoCover(page: Page, coverPath: string): Promise<void> {
+    log("Setting custom video cover...");
+    const coverButton = await findVisible(page, 'coverButton');
+    if (!coverButton) {
+        throw new Error("Cover settings button not found");
+    }
+    await humanClick(page, coverButton.first());
+    await pause(page, 1500);
+
+    const uploadCoverTab = await findVisible(page, 'coverUploadTab');
+    if (uploadCoverTab) {
+        await humanClick(page, uploadCoverTab.first());
+        await pause(page, 1000);
+    }
+
+    const coverInput = await findAttached(page, 'coverFileInput', 15000);
+    await coverInput.last().setInputFiles(coverPath);
+    await pause(page, 3000);
+
+    // The cover dialog is rendered last, so prefer the last matching button
+    for (const confirmButton of locators(page, 'coverConfirmButton')) {
+        if (await confirmButton.last().isVisible()) {
+            await humanClick(page, confirmButton.last());
+            log("Cover confirmed");
+            await pause(page, 1500);
+            return;
+        }
+    }
+    throw new Error("Cover confirm button not found");
+}
+
+export async function uploadVideo(page: Page, videoPath: string, coverPath: string | null): Promise<void> {
+    log("Looking for video upload area...");
+    const videoTab = await findVisible(page, 'videoTab');
+    if (videoTab) {
+        log("Clicking '上传视频' tab...");
+        await humanClick(page, videoTab.first());
+        await pause(page, 2000);
+    }
+
+    log(`Uploading video: ${videoPath}`);
+    const fileInput = await findAttached(page, 'fileInput', 30000);
+    await fileInput.first().setInputFiles(videoPath);
+
+    await waitForVideoProcessed(page);
+
+    if (coverPath) {
+        await setVideoCover(page, coverPath);
+    }
+}
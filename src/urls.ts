@@ -0,0 +1,35 @@
+/**
+ * 小红书创作中心地址
+ *
+ * 创作中心和主站的 origin 可分别通过 XHS_AGENT_CREATOR_ORIGIN / XHS_AGENT_WEB_ORIGIN 覆盖
+ * (如指向 test/mock-creator 的本地模拟创作中心)，每次取地址时读取。
+ */
+
+export const DEFAULT_CREATOR_ORIGIN = 'https://creator.xiaohongshu.com';
+// 评论通知和笔记详情页在主站
+export const DEFAULT_WEB_ORIGIN = 'https://www.xiaohongshu.com';
+
+function originFromEnv(name: string, fallback: string): string {
+    const raw = process.env[name];
+    if (!raw) return fallback;
+    let url: URL;
+    try {
+        url = new URL(raw);
+    } catch {
+        throw new Error(`Invalid ${name}: ${raw}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Invalid ${name}: ${raw} (expected an http(s) origin)`);
+    }
+    return url.origin;
+}
+
+export const creatorOrigin = () => originFromEnv('XHS_AGENT_CREATOR_ORIGIN', DEFAULT_CREATOR_ORIGIN);
+export const webOrigin = () => originFromEnv('XHS_AGENT_WEB_ORIGIN', DEFAULT_WEB_ORIGIN);
+
+export const publishUrl = () => `${creatorOrigin()}/publish/publish`;
+export const loginUrl = () => `${creatorOrigin()}/login`;
+export const homeUrl = () => `${creatorOrigin()}/new/home`;
+export const noteManagerUrl = () => `${creatorOrigin()}/new/note-manager`;
+export const notificationUrl = () => `${webOrigin()}/notification`;
+export const noteUrl = (noteId: string) => `${webOrigin()}/explore/${noteId}`;
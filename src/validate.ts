@@ -0,0 +1,472 @@
+/**
+ * 发布前内容校验
+ *
+ * 在启动浏览器之前检查标题、正文、话题/@、图片与视频文件，
+ * 一次性返回所有问题，便于内容流水线批量检查草稿。
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { getAccount } from './accounts';
+import { ImageInfo, parseImageInfo, readImageInfo } from './imageInfo';
+import { writeOutput } from './logger';
+import { decodeDataUri, toLocalPath } from './media';
+import { DiagnosticsMode, DuplicateContentPolicy, ImagePreprocessOptions, NoteVisibility, PublishConfig, PublishMode } from './types';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+    field: string;      // e.g. 'title', 'imagePaths[2]'
+    code: string;       // machine-readable, e.g. 'title_too_long'
+    message: string;
+    severity: ValidationSeverity;
+}
+
+// 小红书创作中心限制
+export const PLATFORM_LIMITS = {
+    titleMaxLength: 20,
+    contentMaxLength: 1000,
+    maxImages: 18,
+    maxImageBytes: 20 * 1024 * 1024,
+    minImageSide: 200,
+    maxImageSide: 10000,
+    maxAspectRatio: 3,          // longer side / shorter side
+    maxTopics: 10,
+    maxTopicLength: 20,
+    maxMentionLength: 24,
+    minScheduleAheadMs: 60 * 60 * 1000,
+    maxScheduleAheadMs: 14 * 24 * 60 * 60 * 1000,
+    maxVideoBytes: 20 * 1024 * 1024 * 1024,
+};
+
+const PUBLISH_MODES: PublishMode[] = ['publish', 'dryRun', 'draft'];
+const VISIBILITIES: NoteVisibility[] = ['public', 'private', 'friends'];
+const DIAGNOSTICS_MODES: DiagnosticsMode[] = ['onFailure', 'always', 'off'];
+const DUPLICATE_CONTENT_POLICIES: DuplicateContentPolicy[] = ['warn', 'reject'];
+const SUPPORTED_IMAGE_FORMATS = ['jpeg', 'png', 'webp'];
+const SUPPORTED_VIDEO_EXTENSIONS = ['.mp4', '.mov', '.avi', '.mkv', '.webm', '.flv', '.m4v'];
+const ASPECTS = ['3:4', '1:1'];
+const WATERMARK_POSITIONS = ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'];
+// Image issues that preprocessing fixes by re-encoding / resizing
+const PREPROCESS_FIXABLE = ['image_too_large', 'image_format_unsupported', 'image_too_big'];
+// Preprocessing converts other formats in Chrome, but HEIC needs macOS sips (see preprocess.ts)
+const canConvertFormat = (format: string) => format !== 'heic' || process.platform === 'darwin';
+
+// Unicode-aware length (emoji and CJK count as one character each)
+const textLength = (text: string) => Array.from(text).length;
+
+// Text typed into the body editor: the title line followed by the content
+export const editorText = (config: PublishConfig) => `${config.title}\n${config.content ?? ''}`;
+
+const issue = (field: string, code: string, message: string, severity: ValidationSeverity = 'error'): ValidationIssue =>
+    ({ field, code, message, severity });
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some(i => i.severity === 'error');
+
+// ============================================================================
+// 文本校验
+// ============================================================================
+
+function validateText(config: PublishConfig): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (typeof config.title !== 'string' || !config.title.trim()) {
+        issues.push(issue('title', 'title_required', 'Title is required'));
+    } else if (textLength(config.title) > PLATFORM_LIMITS.titleMaxLength) {
+        issues.push(issue('title', 'title_too_long',
+            `Title is ${textLength(config.title)} characters, limit is ${PLATFORM_LIMITS.titleMaxLength}`));
+    }
+
+    if (config.content !== undefined && typeof config.content !== 'string') {
+        issues.push(issue('content', 'content_invalid', 'Content must be a string'));
+        return issues;
+    }
+
+    const content = config.content || '';
+    // The editor receives the title line as well, so that is what has to fit
+    const typed = typeof config.title === 'string' ? editorText(config) : content;
+    if (textLength(typed) > PLATFORM_LIMITS.contentMaxLength) {
+        issues.push(issue('content', 'content_too_long',
+            `Content is ${textLength(typed)} characters including the title line, limit is ${PLATFORM_LIMITS.contentMaxLength}`));
+    }
+
+    // Topics / mentions only count at the start of a word, so emails and URLs are ignored
+    const inlineTopics = Array.from(content.matchAll(/(^|\s)#([^\s#@]*)/g)).map(m => m[2]);
+    const topics = [...inlineTopics, ...(Array.isArray(config.topics) ? config.topics : [])];
+    if (inlineTopics.some(topic => !topic)) {
+        issues.push(issue('content', 'topic_empty', "Content contains a '#' without a topic name"));
+    }
+    if (topics.length > PLATFORM_LIMITS.maxTopics) {
+        issues.push(issue('content', 'too_many_topics',
+            `Content has ${topics.length} topics, limit is ${PLATFORM_LIMITS.maxTopics}`));
+    }
+    for (const topic of topics.filter(t => textLength(t) > PLATFORM_LIMITS.maxTopicLength)) {
+        issues.push(issue('content', 'topic_too_long', `Topic "#${topic}" is longer than ${PLATFORM_LIMITS.maxTopicLength} characters`, 'warning'));
+    }
+
+    const inlineMentions = Array.from(content.matchAll(/(^|\s)@([^\s#@]*)/g)).map(m => m[2]);
+    const mentions = [...inlineMentions, ...(Array.isArray(config.mentions) ? config.mentions : [])];
+    if (inlineMentions.some(mention => !mention)) {
+        issues.push(issue('content', 'mention_empty', "Content contains an '@' without a user name"));
+    }
+    for (const mention of mentions.filter(m => textLength(m) > PLATFORM_LIMITS.maxMentionLength)) {
+        issues.push(issue('content', 'mention_too_long', `Mention "@${mention}" is longer than ${PLATFORM_LIMITS.maxMentionLength} characters`, 'warning'));
+    }
+
+    return issues;
+}
+
+function validateTagList(values: unknown, field: 'topics' | 'mentions', prefix: string): ValidationIssue[] {
+    if (values === undefined) return [];
+    if (!Array.isArray(values) || values.some(v => typeof v !== 'string')) {
+        return [issue(field, `${field}_invalid`, `${field} must be an array of strings`)];
+    }
+    return values
+        .map((value, i) => ({ value: value.replace(new RegExp(`^${prefix}`), ''), i }))
+        .filter(({ value }) => !value.trim() || /[\s#@]/.test(value))
+        .map(({ value, i }) => issue(`${field}[${i}]`, `${field}_syntax`,
+            `"${value}" must be a single non-empty name without spaces, '#' or '@'`));
+}
+
+function validateSettings(config: PublishConfig): ValidationIssue[] {
+    const issues = [
+        ...validateTagList(config.topics, 'topics', '#'),
+        ...validateTagList(config.mentions, 'mentions', '@'),
+    ];
+
+    if (config.location !== undefined && (typeof config.location !== 'string' || !config.location.trim())) {
+        issues.push(issue('location', 'location_invalid', 'location must be a non-empty string'));
+    }
+    if (config.visibility !== undefined && !VISIBILITIES.includes(config.visibility)) {
+        issues.push(issue('visibility', 'visibility_invalid', `Unknown visibility "${config.visibility}" (allowed: ${VISIBILITIES.join(', ')})`));
+    }
+    if (config.original !== undefined && typeof config.original !== 'boolean') {
+        issues.push(issue('original', 'original_invalid', 'original must be a boolean'));
+    }
+    if (config.scheduledAt !== undefined) {
+        const time = new Date(config.scheduledAt).getTime();
+        const ahead = time - Date.now();
+        if (Number.isNaN(time)) {
+            issues.push(issue('scheduledAt', 'schedule_invalid', `Invalid scheduledAt time: ${config.scheduledAt}`));
+        } else if (ahead < PLATFORM_LIMITS.minScheduleAheadMs || ahead > PLATFORM_LIMITS.maxScheduleAheadMs) {
+            issues.push(issue('scheduledAt', 'schedule_out_of_range', 'Scheduled time must be between 1 hour and 14 days from now'));
+        }
+        if (config.mode === 'draft') {
+            issues.push(issue('scheduledAt', 'schedule_ignored', 'scheduledAt is ignored when saving a draft', 'warning'));
+        }
+    }
+    if (config.preprocess !== undefined) {
+        issues.push(...validatePreprocess(config.preprocess));
+    }
+    return issues;
+}
+
+function validatePreprocess(options: ImagePreprocessOptions): ValidationIssue[] {
+    if (!options || typeof options !== 'object') {
+        return [issue('preprocess', 'preprocess_invalid', 'preprocess must be an object')];
+    }
+    const issues: ValidationIssue[] = [];
+    const invalid = (field: string, message: string) => issues.push(issue(`preprocess.${field}`, 'preprocess_invalid', message));
+
+    if (options.format !== undefined && !['jpeg', 'png'].includes(options.format)) invalid('format', 'format must be "jpeg" or "png"');
+    if (options.quality !== undefined && !(options.quality > 0 && options.quality <= 1)) invalid('quality', 'quality must be between 0 and 1');
+    if (options.maxSide !== undefined && !(Number.isInteger(options.maxSide) && options.maxSide >= PLATFORM_LIMITS.minImageSide && options.maxSide <= PLATFORM_LIMITS.maxImageSide)) {
+        invalid('maxSide', `maxSide must be an integer between ${PLATFORM_LIMITS.minImageSide} and ${PLATFORM_LIMITS.maxImageSide}`);
+    }
+    if (options.aspect !== undefined && !ASPECTS.includes(options.aspect)) invalid('aspect', `aspect must be one of ${ASPECTS.join(', ')}`);
+    if (options.fit !== undefined && !['crop', 'pad'].includes(options.fit)) invalid('fit', 'fit must be "crop" or "pad"');
+
+    const watermark = options.watermark;
+    if (watermark !== undefined) {
+        if (!watermark || typeof watermark.text !== 'string' || !watermark.text.trim()) {
+            invalid('watermark.text', 'watermark.text must be a non-empty string');
+        } else {
+            if (watermark.position !== undefined && !WATERMARK_POSITIONS.includes(watermark.position)) {
+                invalid('watermark.position', `position must be one of ${WATERMARK_POSITIONS.join(', ')}`);
+            }
+            if (watermark.opacity !== undefined && !(watermark.opacity >= 0 && watermark.opacity <= 1)) invalid('watermark.opacity', 'opacity must be between 0 and 1');
+            if (watermark.fontSize !== undefined && !(watermark.fontSize > 0)) invalid('watermark.fontSize', 'fontSize must be a positive number');
+        }
+    }
+    return issues;
+}
+
+// ============================================================================
+// 媒体校验
+// ============================================================================
+
+function checkImageInfo(info: ImageInfo | null, bytes: number, field: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (bytes > PLATFORM_LIMITS.maxImageBytes) {
+        issues.push(issue(field, 'image_too_large',
+            `Image is ${(bytes / 1024 / 1024).toFixed(1)}MB, limit is ${PLATFORM_LIMITS.maxImageBytes / 1024 / 1024}MB`));
+    }
+    if (!info) {
+        issues.push(issue(field, 'image_unrecognized', 'File is not a recognized image format'));
+        return issues;
+    }
+    if (!SUPPORTED_IMAGE_FORMATS.includes(info.format)) {
+        issues.push(canConvertFormat(info.format)
+            ? issue(field, 'image_format_unsupported',
+                `Image format ${info.format} is not supported (allowed: ${SUPPORTED_IMAGE_FORMATS.join(', ')})`)
+            : issue(field, 'image_format_unconvertible',
+                `Image format ${info.format} is not supported and can only be converted on macOS (allowed: ${SUPPORTED_IMAGE_FORMATS.join(', ')})`));
+    }
+    if (info.width && info.height) {
+        const shorter = Math.min(info.width, info.height);
+        const longer = Math.max(info.width, info.height);
+        if (shorter < PLATFORM_LIMITS.minImageSide) {
+            issues.push(issue(field, 'image_too_small',
+                `Image is ${info.width}x${info.height}, shorter side must be at least ${PLATFORM_LIMITS.minImageSide}px`));
+        }
+        if (longer > PLATFORM_LIMITS.maxImageSide) {
+            issues.push(issue(field, 'image_too_big',
+                `Image is ${info.width}x${info.height}, longer side must be at most ${PLATFORM_LIMITS.maxImageSide}px`));
+        }
+        if (longer / shorter > PLATFORM_LIMITS.maxAspectRatio) {
+            issues.push(issue(field, 'image_aspect_ratio',
+                `Image aspect ratio ${info.width}:${info.height} will be heavily cropped`, 'warning'));
+        }
+    }
+    return issues;
+}
+
+function checkLocalFile(filePath: string, field: string): fs.Stats | ValidationIssue {
+    try {
+        fs.accessSync(filePath, fs.constants.R_OK);
+        const stats = fs.statSync(filePath);
+        if (!stats.isFile()) {
+            return issue(field, 'file_not_file', `Not a regular file: ${filePath}`);
+        }
+        return stats;
+    } catch {
+        return issue(field, 'file_unreadable', `File not found or not readable: ${filePath}`);
+    }
+}
+
+// Validate an image already on disk (local source or downloaded URL)
+export function validateImageFile(filePath: string, field: string): ValidationIssue[] {
+    const stats = checkLocalFile(filePath, field);
+    if (!(stats instanceof fs.Stats)) return [stats];
+    return checkImageInfo(readImageInfo(filePath), stats.size, field);
+}
+
+function validateImageSource(source: unknown, field: string): ValidationIssue[] {
+    if (typeof source !== 'string' || !source) {
+        return [issue(field, 'source_invalid', 'Image source must be a non-empty string')];
+    }
+
+    if (source.startsWith('http')) {
+        try {
+            new URL(source);
+        } catch {
+            return [issue(field, 'url_invalid', `Invalid image URL: ${source.substring(0, 80)}`)];
+        }
+        // Remote content is checked after download
+        return [];
+    }
+
+    if (source.startsWith('data:')) {
+        let buffer: Buffer;
+        try {
+            buffer = decodeDataUri(source);
+        } catch {
+            return [issue(field, 'data_uri_invalid', 'Invalid image data URI')];
+        }
+        return checkImageInfo(parseImageInfo(buffer), buffer.length, field);
+    }
+
+    try {
+        return validateImageFile(toLocalPath(source), field);
+    } catch {
+        return [issue(field, 'url_invalid', `Invalid file URL: ${source.substring(0, 80)}`)];
+    }
+}
+
+function validateVideoSource(source: unknown, field: string): ValidationIssue[] {
+    if (typeof source !== 'string' || !source) {
+        return [issue(field, 'source_invalid', 'Video source must be a non-empty string')];
+    }
+    if (source.startsWith('http')) {
+        try {
+            new URL(source);
+            return [];
+        } catch {
+            return [issue(field, 'url_invalid', `Invalid video URL: ${source.substring(0, 80)}`)];
+        }
+    }
+    if (source.startsWith('data:')) {
+        return /^data:video\/[a-zA-Z0-9.+-]+;base64,/.test(source)
+            ? []
+            : [issue(field, 'data_uri_invalid', 'Invalid Base64 video data URI')];
+    }
+
+    let localPath: string;
+    try {
+        localPath = toLocalPath(source);
+    } catch {
+        return [issue(field, 'url_invalid', `Invalid file URL: ${source.substring(0, 80)}`)];
+    }
+    const stats = checkLocalFile(localPath, field);
+    if (!(stats instanceof fs.Stats)) return [stats];
+
+    const issues: ValidationIssue[] = [];
+    if (!SUPPORTED_VIDEO_EXTENSIONS.includes(path.extname(localPath).toLowerCase())) {
+        issues.push(issue(field, 'video_format_unsupported',
+            `Video extension ${path.extname(localPath) || '(none)'} is not supported (allowed: ${SUPPORTED_VIDEO_EXTENSIONS.join(', ')})`));
+    }
+    if (stats.size > PLATFORM_LIMITS.maxVideoBytes) {
+        issues.push(issue(field, 'video_too_large', `Video is larger than ${PLATFORM_LIMITS.maxVideoBytes / 1024 / 1024 / 1024}GB`));
+    }
+    return issues;
+}
+
+function validateMedia(config: PublishConfig): ValidationIssue[] {
+    if (config.videoPath) {
+        const issues = validateVideoSource(config.videoPath, 'videoPath');
+        if (config.coverPath) {
+            issues.push(...validateImageSource(config.coverPath, 'coverPath'));
+        }
+        if (config.imagePaths?.length || config.imagePath) {
+            issues.push(issue('imagePaths', 'images_ignored', 'Images are ignored when videoPath is provided', 'warning'));
+        }
+        return issues;
+    }
+
+    if (config.imagePaths !== undefined && !Array.isArray(config.imagePaths)) {
+        return [issue('imagePaths', 'source_invalid', 'imagePaths must be an array')];
+    }
+
+    const useArray = !!config.imagePaths && config.imagePaths.length > 0;
+    const sources = useArray ? config.imagePaths! : config.imagePath ? [config.imagePath] : [];
+    if (sources.length === 0) {
+        return [issue('imagePaths', 'media_required', 'Provide imagePaths, imagePath or videoPath')];
+    }
+
+    const issues: ValidationIssue[] = [];
+    if (sources.length > PLATFORM_LIMITS.maxImages) {
+        issues.push(issue('imagePaths', 'too_many_images',
+            `${sources.length} images provided, limit is ${PLATFORM_LIMITS.maxImages}`));
+    }
+    const fixable = config.preprocess?.aspect ? [...PREPROCESS_FIXABLE, 'image_aspect_ratio'] : PREPROCESS_FIXABLE;
+    sources.forEach((source, i) => {
+        const sourceIssues = validateImageSource(source, useArray ? `imagePaths[${i}]` : 'imagePath');
+        // Files are checked again after preprocessing, so only warn about what it will fix
+        issues.push(...(config.preprocess
+            ? sourceIssues.map(i => fixable.includes(i.code) ? { ...i, severity: 'warning' as const, message: `${i.message} (fixed by preprocessing)` } : i)
+            : sourceIssues));
+    });
+    return issues;
+}
+
+// ============================================================================
+// 入口
+// ============================================================================
+
+const isRange = (value: unknown): value is [number, number] =>
+    Array.isArray(value) && value.length === 2 && value.every(n => typeof n === 'number' && n >= 0) && value[0] <= value[1];
+
+function validateHumanize(humanize: PublishConfig['humanize']): ValidationIssue[] {
+    if (humanize === undefined || typeof humanize === 'boolean') return [];
+    if (typeof humanize !== 'object' || humanize === null || Array.isArray(humanize)) {
+        return [issue('humanize', 'humanize_invalid', 'humanize must be a boolean or an options object')];
+    }
+    const issues: ValidationIssue[] = [];
+    for (const key of ['typingDelayMs', 'pauseFactor'] as const) {
+        if (humanize[key] !== undefined && !isRange(humanize[key])) {
+            issues.push(issue(`humanize.${key}`, 'humanize_invalid', `${key} must be [min, max] with 0 <= min <= max`));
+        }
+    }
+    return issues;
+}
+
+export function validatePublishConfig(config: PublishConfig): ValidationIssue[] {
+    if (!config || typeof config !== 'object') {
+        return [issue('', 'config_invalid', 'Publish config must be a JSON object')];
+    }
+    const issues = [...validateText(config), ...validateSettings(config), ...validateMedia(config)];
+    if (config.mode !== undefined && !PUBLISH_MODES.includes(config.mode)) {
+        issues.push(issue('mode', 'mode_invalid', `Unknown mode "${config.mode}" (allowed: ${PUBLISH_MODES.join(', ')})`));
+    }
+    if (config.deadlineMs !== undefined && !(typeof config.deadlineMs === 'number' && config.deadlineMs > 0)) {
+        issues.push(issue('deadlineMs', 'deadline_invalid', 'deadlineMs must be a positive number of milliseconds'));
+    }
+    if (config.diagnostics !== undefined && !DIAGNOSTICS_MODES.includes(config.diagnostics)) {
+        issues.push(issue('diagnostics', 'diagnostics_invalid', `Unknown diagnostics mode "${config.diagnostics}" (allowed: ${DIAGNOSTICS_MODES.join(', ')})`));
+    }
+    if (config.duplicateContent !== undefined && !DUPLICATE_CONTENT_POLICIES.includes(config.duplicateContent)) {
+        issues.push(issue('duplicateContent', 'duplicate_content_invalid', `Unknown duplicateContent policy "${config.duplicateContent}" (allowed: ${DUPLICATE_CONTENT_POLICIES.join(', ')})`));
+    }
+    issues.push(...validateHumanize(config.humanize));
+    if (config.accountId !== undefined) {
+        try {
+            getAccount(config.accountId);
+        } catch (e: any) {
+            issues.push(issue('accountId', 'account_unknown', e.message));
+        }
+    }
+    return issues;
+}
+
+export function formatIssues(issues: ValidationIssue[]): string {
+    return issues.map(i => `${i.field ? `${i.field}: ` : ''}${i.message}`).join('; ');
+}
+
+// ============================================================================
+// validate 命令
+// ============================================================================
+
+function reportValidation(config: PublishConfig, index: number): boolean {
+    const issues = validatePublishConfig(config);
+    const valid = !hasErrors(issues);
+    writeOutput({ type: 'validation', index, taskId: config?.taskId, valid, issues });
+    return valid;
+}
+
+/**
+ * 校验草稿但不启动浏览器：
+ * - 无参数: 从 stdin 逐行读取 PublishConfig (JSON Lines)
+ * - 文件参数: 每个文件为单个 PublishConfig 或其数组
+ * 任一草稿无效时返回 false
+ */
+export async function runValidateCommand(files: string[]): Promise<boolean> {
+    let allValid = true;
+    let index = 0;
+
+    if (files.length === 0) {
+        const rl = readline.createInterface({
+            input: process.stdin,
+            terminal: false
+        });
+        for await (const line of rl) {
+            if (!line.trim()) continue;
+            let config: PublishConfig;
+            try {
+                config = JSON.parse(line);
+            } catch (e: any) {
+                writeOutput({ type: 'validation', index: index++, valid: false, issues: [issue('', 'json_invalid', `Invalid JSON: ${e.message}`)] });
+                allValid = false;
+                continue;
+            }
+            allValid = reportValidation(config, index++) && allValid;
+        }
+        return allValid;
+    }
+
+    for (const file of files) {
+        let parsed: PublishConfig | PublishConfig[];
+        try {
+            parsed = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        } catch (e: any) {
+            writeOutput({ type: 'validation', index: index++, file, valid: false, issues: [issue('', 'json_invalid', `Cannot read ${file}: ${e.message}`)] });
+            allValid = false;
+            continue;
+        }
+        for (const config of Array.isArray(parsed) ? parsed : [parsed]) {
+            allValid = reportValidation(config, index++) && allValid;
+        }
+    }
+    return allValid;
+}
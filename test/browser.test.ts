@@ -0,0 +1,42 @@
+/**
+ * 全局浏览器参数测试
+ */
+
+import { removeTestHome } from './environment';
+import { after, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { extractBrowserArgs } from '../src/browser';
+
+after(removeTestHome);
+
+describe('extractBrowserArgs', () => {
+    test('leaves other arguments in order', () => {
+        assert.deepEqual(extractBrowserArgs(['publish', '--json', 'a.json']), { args: ['publish', '--json', 'a.json'], overrides: {} });
+    });
+
+    test('takes values inline or from the next argument', () => {
+        const { args, overrides } = extractBrowserArgs([
+            '--chrome-path', '/opt/chrome', 'serve', '--cdp-port=9333', '--port', '8080', '--profile-dir', './profile',
+        ]);
+        assert.deepEqual(args, ['serve', '--port', '8080']);
+        assert.deepEqual(overrides, { executablePath: '/opt/chrome', port: 9333, userDataDir: './profile' });
+    });
+
+    test('collects repeated Chrome flags', () => {
+        const { overrides } = extractBrowserArgs(['--chrome-flag=--no-sandbox', '--chrome-flag', '--lang=zh-CN']);
+        assert.deepEqual(overrides.extraFlags, ['--no-sandbox', '--lang=zh-CN']);
+    });
+
+    test('parses the headless mode without consuming the next argument', () => {
+        assert.deepEqual(extractBrowserArgs(['--headless', 'login']), { args: ['login'], overrides: { headless: 'new' } });
+        assert.equal(extractBrowserArgs(['--headless=old']).overrides.headless, 'old');
+        assert.equal(extractBrowserArgs(['--headless=false']).overrides.headless, undefined);
+        assert.throws(() => extractBrowserArgs(['--headless=maybe']), /Invalid headless mode/);
+    });
+
+    test('rejects missing values and invalid ports', () => {
+        assert.throws(() => extractBrowserArgs(['--chrome-path']), /Missing value for --chrome-path/);
+        assert.throws(() => extractBrowserArgs(['--cdp-port', '70000']), /Invalid CDP port/);
+        assert.throws(() => extractBrowserArgs(['--cdp-port=abc']), /Invalid CDP port/);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * 任务取消测试
+ *
+ * 点击发布之前的取消立即生效；点击发布之后的取消不能把已提交的笔记报告为取消。
+ */
+
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { TaskCancelledError, createTaskAbort } from '../src/cancellation';
+
+describe('createTaskAbort', () => {
+    test('cancels at the next checkpoint before publishing', async () => {
+        const external = new AbortController();
+        const abort = createTaskAbort(undefined, external.signal);
+        try {
+            await abort.runStage(undefined, 'fill', async () => undefined);
+            external.abort();
+            await assert.rejects(
+                async () => abort.runStage(undefined, 'settings', async () => undefined),
+                (e: any) => e instanceof TaskCancelledError && e.reason === 'cancelled' && e.stage === 'settings',
+            );
+        } finally {
+            abort.dispose();
+        }
+    });
+
+    test('a cancel during confirmation does not abort the submitted note', async () => {
+        const external = new AbortController();
+        const abort = createTaskAbort(undefined, external.signal);
+        try {
+            const confirmed = await abort.runStage(undefined, 'publish_attempt', () =>
+                abort.runStage(undefined, 'confirmation', async () => {
+                    external.abort();
+                    await new Promise(resolve => setTimeout(resolve, 10));
+                    return true;
+                }));
+            assert.equal(confirmed, true);
+            assert.ok(abort.signal.aborted);
+
+            // Retries and the final checkpoints after submission must not throw either
+            assert.doesNotThrow(() => abort.checkpoint());
+            assert.equal(await abort.runStage(undefined, 'publish_attempt', async () => false, 2), false);
+        } finally {
+            abort.dispose();
+        }
+    });
+
+    test('a deadline during confirmation does not abort the submitted note', async () => {
+        const abort = createTaskAbort(5);
+        try {
+            const confirmed = await abort.runStage(undefined, 'publish_attempt', () =>
+                abort.runStage(undefined, 'confirmation', async () => {
+                    await new Promise(resolve => setTimeout(resolve, 30));
+                    return true;
+                }));
+            assert.equal(confirmed, true);
+            assert.ok(abort.signal.aborted);
+        } finally {
+            abort.dispose();
+        }
+    });
+});
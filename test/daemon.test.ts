@@ -0,0 +1,31 @@
+/**
+ * 常驻模式消息解析测试
+ */
+
+import { removeTestHome } from './environment';
+import { after, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseDaemonMessage } from '../src/daemon';
+
+after(removeTestHome);
+
+describe('parseDaemonMessage', () => {
+    test('parses message objects', () => {
+        assert.deepEqual(parseDaemonMessage('{"type":"ping","id":"1"}'), { type: 'ping', id: '1' });
+        assert.deepEqual(parseDaemonMessage(' {"type":"cancel","taskId":"t1"} '), { type: 'cancel', taskId: 't1' });
+    });
+
+    test('keeps publish configs without a type', () => {
+        assert.deepEqual(parseDaemonMessage('{"title":"标题","imagePaths":["a.png"]}'), { title: '标题', imagePaths: ['a.png'] });
+    });
+
+    test('rejects malformed JSON', () => {
+        assert.throws(() => parseDaemonMessage('{"type":'), /^Error: Invalid JSON on stdin: /);
+    });
+
+    test('rejects JSON that is not an object', () => {
+        for (const line of ['null', '[]', '42', '"ping"']) {
+            assert.throws(() => parseDaemonMessage(line), { message: `Invalid JSON on stdin: expected an object, got ${line}` });
+        }
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * e2e 测试环境
+ *
+ * 必须在引入 src 模块之前加载: AGENT_HOME 在 paths.ts 加载时由 HOME 决定，
+ * 测试使用独立的临时 HOME，不会读写本机的 ~/.auto-tauri。
+ */
+
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+export const TEST_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'xhs-agent-e2e-'));
+
+process.env.HOME = TEST_HOME;
+process.env.USERPROFILE = TEST_HOME;
+process.env.XHS_AGENT_HEADLESS = 'new';
+process.env.XHS_AGENT_HUMANIZE = '0';
+delete process.env.XHS_AGENT_SELECTORS;
+delete process.env.XHS_AGENT_PROFILE_DIR;
+
+export function removeTestHome(): void {
+    fs.rmSync(TEST_HOME, { recursive: true, force: true });
+}
+
+// A port nothing listens on, for the test Chrome's debugging endpoint
+export function findFreePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
@@ -0,0 +1,143 @@
+/**
+ * 发布流程端到端测试
+ *
+ * 在 headless Chromium 上对本地模拟创作中心 (test/mock-creator) 跑完整的 runPublish。
+ * 找不到 Chromium 时本地整组跳过 (可用 XHS_AGENT_CHROME_PATH 指定)；设置了 CI 时直接失败，
+ * 保证 CI 通过即代表用例真正执行过。
+ */
+
+import { findFreePort, removeTestHome } from './environment';
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { chromium } from 'playwright';
+import { getChromePath } from '../../src/browser';
+import { AgentEvent, onEvent } from '../../src/events';
+import { runPublish } from '../../src/publish';
+import { PublishConfig } from '../../src/types';
+import { MockCreatorCenter, startMockCreatorCenter } from '../mock-creator/server';
+
+const IMAGE = path.join(__dirname, '..', 'fixtures', 'note-3x4.png');
+const TEST_TIMEOUT = 120 * 1000;
+
+// Playwright's bundled Chromium when installed, otherwise a system Chrome / Chromium
+function findChromium(): string | null {
+    try {
+        const bundled = chromium.executablePath();
+        if (bundled && fs.existsSync(bundled)) return bundled;
+    } catch { }
+    try {
+        return getChromePath();
+    } catch {
+        return null;
+    }
+}
+
+const chromiumPath = findChromium();
+if (chromiumPath) process.env.XHS_AGENT_CHROME_PATH = chromiumPath;
+const CHROMIUM_MISSING = 'Chromium not found, set XHS_AGENT_CHROME_PATH or run: npx playwright install chromium';
+
+let taskCounter = 0;
+const note = (overrides: Partial<PublishConfig> = {}): PublishConfig => ({
+    taskId: `e2e_${++taskCounter}`,
+    title: `E2E 测试笔记 ${taskCounter}`,
+    content: '本地模拟创作中心端到端测试',
+    imagePaths: [IMAGE],
+    diagnostics: 'off',
+    ...overrides,
+});
+
+describe('runPublish against the mock creator center', { skip: chromiumPath || process.env.CI ? false : CHROMIUM_MISSING }, () => {
+    let mock: MockCreatorCenter;
+    let cdpPort: number;
+
+    before(async () => {
+        if (!chromiumPath) throw new Error(CHROMIUM_MISSING);
+        mock = await startMockCreatorCenter();
+        cdpPort = await findFreePort();
+        process.env.XHS_AGENT_CREATOR_ORIGIN = mock.origin;
+        process.env.XHS_AGENT_WEB_ORIGIN = mock.origin;
+        process.env.XHS_AGENT_CDP_PORT = String(cdpPort);
+    });
+
+    after(async () => {
+        // runPublish leaves the launched Chrome running for reuse; shut it down through CDP
+        try {
+            const browser = await chromium.connectOverCDP(`http://127.0.0.1:${cdpPort}`);
+            await (await browser.newBrowserCDPSession()).send('Browser.close');
+        } catch { }
+        await mock?.close();
+        removeTestHome();
+    });
+
+    test('publishes an image note and returns the note ID', { timeout: TEST_TIMEOUT }, async () => {
+        mock.reset();
+        const config = note();
+        const result = await runPublish(config);
+
+        assert.equal(result.status, 'success', result.data.message);
+        assert.equal(result.data.noteId, 'mock-note-1');
+        assert.equal(result.data.noteUrl, `${mock.origin}/explore/mock-note-1`);
+        assert.equal(mock.uploads, 1);
+        assert.deepEqual(mock.notes.map(n => [n.title, n.imageCount, n.draft]), [[config.title, 1, false]]);
+        assert.ok(mock.notes[0].content.includes(config.content));
+    });
+
+    test('does not publish the same taskId twice', { timeout: TEST_TIMEOUT }, async () => {
+        mock.reset();
+        const config = note();
+        assert.equal((await runPublish(config)).status, 'success');
+
+        const again = await runPublish(config);
+        assert.equal(again.status, 'success');
+        assert.equal(again.data.duplicate, true);
+        assert.equal(again.data.noteId, 'mock-note-1');
+        assert.equal(mock.notes.length, 1);
+    });
+
+    test('reports a content violation as a non-retryable failure', { timeout: TEST_TIMEOUT }, async () => {
+        mock.reset({ publishOutcome: 'content_violation' });
+        const result = await runPublish(note());
+
+        assert.equal(result.status, 'failed');
+        assert.equal(result.data.reason, 'content_violation');
+        assert.equal(mock.notes.length, 0);
+    });
+
+    test('dry run fills the editor without publishing', { timeout: TEST_TIMEOUT }, async () => {
+        mock.reset();
+        const result = await runPublish(note({ mode: 'dryRun' }));
+
+        assert.equal(result.status, 'success', result.data.message);
+        assert.equal(result.data.mode, 'dryRun');
+        assert.ok(fs.existsSync(result.data.screenshotPath!));
+        assert.equal(mock.notes.length, 0);
+    });
+
+    test('saves a draft', { timeout: TEST_TIMEOUT }, async () => {
+        mock.reset();
+        const result = await runPublish(note({ mode: 'draft' }));
+
+        assert.equal(result.status, 'success', result.data.message);
+        assert.deepEqual(mock.notes.map(n => n.draft), [true]);
+    });
+
+    test('waits for QR code login before publishing', { timeout: TEST_TIMEOUT }, async () => {
+        mock.reset({ loggedIn: false });
+        const states: string[] = [];
+        const unsubscribe = onEvent((event: AgentEvent) => {
+            if (event.event === 'login_qrcode') mock.confirmLogin();
+            if (event.event === 'login_state') states.push(event.state);
+        });
+        try {
+            const result = await runPublish(note());
+            assert.equal(result.status, 'success', result.data.message);
+            assert.equal(mock.notes.length, 1);
+            assert.ok(states.includes('waiting_scan'));
+            assert.equal(states[states.length - 1], 'confirmed');
+        } finally {
+            unsubscribe();
+        }
+    });
+});
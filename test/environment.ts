@@ -0,0 +1,21 @@
+/**
+ * 单元测试环境
+ *
+ * 必须在引入 src 模块之前加载: AGENT_HOME 在 paths.ts 加载时由 HOME 决定，
+ * 每个测试文件使用独立的临时 HOME，不会读写本机的 ~/.auto-tauri。
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const TEST_HOME = fs.mkdtempSync(path.join(os.tmpdir(), 'xhs-agent-test-'));
+
+process.env.HOME = TEST_HOME;
+process.env.USERPROFILE = TEST_HOME;
+delete process.env.XHS_AGENT_CDP_PORT;
+delete process.env.XHS_AGENT_PROFILE_DIR;
+
+export function removeTestHome(): void {
+    fs.rmSync(TEST_HOME, { recursive: true, force: true });
+}
@@ -0,0 +1,111 @@
+/**
+ * 发布记录测试
+ *
+ * 同一 taskId 不重复发布；点击发布后的任何结果都视为可能已发布；按账号执行频率限制。
+ */
+
+import { removeTestHome } from './environment';
+import { after, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { DEFAULT_ACCOUNT_ID, setAccountLimits } from '../src/accounts';
+import { LEDGER_FILE, checkLedger, recordRun } from '../src/ledger';
+import { PublishConfig, PublishResult } from '../src/types';
+
+const MINUTE = 60 * 1000;
+
+let taskCounter = 0;
+const note = (overrides: Partial<PublishConfig> = {}): PublishConfig => ({
+    taskId: `ledger_${++taskCounter}`,
+    title: `笔记 ${taskCounter}`,
+    content: '正文',
+    imagePaths: ['/tmp/note.png'],
+    ...overrides,
+});
+
+const result = (status: PublishResult['status'], noteId?: string): PublishResult =>
+    ({ status, data: { message: status, noteId } });
+
+after(removeTestHome);
+
+beforeEach(() => {
+    fs.rmSync(LEDGER_FILE, { force: true });
+    setAccountLimits(DEFAULT_ACCOUNT_ID, { dailyCap: 0, minIntervalMinutes: 0 });
+});
+
+describe('checkLedger', () => {
+    test('reuses the result of a task that already succeeded', () => {
+        const config = note();
+        recordRun(config).finish(result('success', 'note-1'), true);
+
+        const check = checkLedger(config);
+        assert.equal(check.action, 'reuse');
+        assert.equal(check.action === 'reuse' && check.entry.noteId, 'note-1');
+    });
+
+    test('retries a task that failed before the publish click', () => {
+        const config = note();
+        recordRun(config).finish(result('failed'), false);
+        assert.equal(checkLedger(config).action, 'proceed');
+    });
+
+    test('rejects a task that failed after the publish click', () => {
+        const config = note();
+        recordRun(config).finish(result('failed'), true);
+
+        const check = checkLedger(config);
+        assert.equal(check.action === 'reject' && check.reason, 'duplicate_task');
+    });
+
+    test('rejects a task whose run never finished', () => {
+        const config = note();
+        recordRun(config);
+        assert.equal(checkLedger(config).action, 'reject');
+    });
+
+    test('ignores dry runs and drafts', () => {
+        const config = note({ mode: 'dryRun' });
+        recordRun(config).finish(result('success'), false);
+        assert.equal(checkLedger(note({ taskId: config.taskId })).action, 'proceed');
+        assert.equal(checkLedger(config).action, 'proceed');
+    });
+
+    test('warns about or rejects duplicate content', () => {
+        recordRun(note({ title: '同一篇' })).finish(result('success', 'note-1'), true);
+
+        const warned = checkLedger(note({ title: '同一篇' }));
+        assert.equal(warned.action === 'proceed' && warned.warnings.length, 1);
+        const rejected = checkLedger(note({ title: '同一篇', duplicateContent: 'reject' }));
+        assert.equal(rejected.action === 'reject' && rejected.reason, 'duplicate_content');
+    });
+
+    test('enforces the daily cap', () => {
+        recordRun(note()).finish(result('success'), true);
+        setAccountLimits(DEFAULT_ACCOUNT_ID, { dailyCap: 1 });
+
+        const check = checkLedger(note());
+        assert.equal(check.action === 'reject' && check.reason, 'rate_limited');
+        const tomorrow = new Date();
+        tomorrow.setHours(24, 0, 0, 0);
+        assert.equal(check.action === 'reject' && check.retryAt, tomorrow.toISOString());
+
+        setAccountLimits(DEFAULT_ACCOUNT_ID, { dailyCap: 2 });
+        assert.equal(checkLedger(note()).action, 'proceed');
+    });
+
+    test('enforces the minimum interval', () => {
+        recordRun(note()).finish(result('unconfirmed'), true);
+        setAccountLimits(DEFAULT_ACCOUNT_ID, { minIntervalMinutes: 30 });
+
+        const now = Date.now();
+        const check = checkLedger(note(), new Date(now + 10 * MINUTE));
+        assert.equal(check.action === 'reject' && check.reason, 'rate_limited');
+        assert.equal(checkLedger(note(), new Date(now + 31 * MINUTE)).action, 'proceed');
+    });
+
+    test('only counts runs that may have published', () => {
+        recordRun(note()).finish(result('failed'), false);
+        setAccountLimits(DEFAULT_ACCOUNT_ID, { dailyCap: 1, minIntervalMinutes: 30 });
+        assert.equal(checkLedger(note()).action, 'proceed');
+    });
+});
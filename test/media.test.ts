@@ -0,0 +1,99 @@
+/**
+ * 图片源与缓存测试
+ *
+ * URL 图片在有效期内直接使用缓存，过期后重新下载；缓存命中会刷新文件时间，避免被清理。
+ */
+
+import { removeTestHome } from './environment';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as net from 'net';
+import * as path from 'path';
+import { IMAGE_CACHE_DIR, decodeDataUri, pruneImageCache, resolveImageSource } from '../src/media';
+
+const IMAGE = path.join(__dirname, 'fixtures', 'note-3x4.png');
+const URL_INDEX_FILE = path.join(IMAGE_CACHE_DIR, 'urls.json');
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('decodeDataUri', () => {
+    test('decodes base64 data', () => {
+        const png = fs.readFileSync(IMAGE);
+        assert.deepEqual(decodeDataUri(`data:image/png;base64,${png.toString('base64')}`), png);
+    });
+
+    test('decodes percent escapes as bytes', () => {
+        assert.deepEqual(decodeDataUri('data:image/png,%89PNG%0D%0A%1A%0A'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+        assert.equal(decodeDataUri('data:text/plain;charset=utf-8,%E5%B0%8F红书').toString('utf-8'), '小红书');
+    });
+
+    test('rejects other strings', () => {
+        assert.throws(() => decodeDataUri('data:image/png;base64'), /Invalid data URI/);
+    });
+});
+
+describe('URL image cache', () => {
+    let server: http.Server;
+    let url: string;
+    let downloads = 0;
+
+    before(async () => {
+        server = http.createServer((_req, res) => {
+            downloads++;
+            res.writeHead(200, { 'Content-Type': 'image/png' });
+            res.end(fs.readFileSync(IMAGE));
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as net.AddressInfo).port}/note.png`;
+    });
+
+    after(async () => {
+        await new Promise(resolve => server.close(resolve));
+        removeTestHome();
+    });
+
+    beforeEach(() => {
+        fs.rmSync(IMAGE_CACHE_DIR, { recursive: true, force: true });
+        downloads = 0;
+    });
+
+    const ageIndexEntry = (ageMs: number) => {
+        const index = JSON.parse(fs.readFileSync(URL_INDEX_FILE, 'utf-8'));
+        index[url].fetchedAt = Date.now() - ageMs;
+        fs.writeFileSync(URL_INDEX_FILE, JSON.stringify(index));
+    };
+
+    test('serves a recent download from the cache', async () => {
+        const first = await resolveImageSource(url, 0);
+        assert.equal(path.dirname(first), IMAGE_CACHE_DIR);
+        assert.deepEqual(fs.readFileSync(first), fs.readFileSync(IMAGE));
+
+        ageIndexEntry(DAY - 60 * 1000);
+        assert.equal(await resolveImageSource(url, 0), first);
+        assert.equal(downloads, 1);
+    });
+
+    test('downloads again once the entry has expired', async () => {
+        const first = await resolveImageSource(url, 0);
+        ageIndexEntry(DAY + 60 * 1000);
+
+        assert.equal(await resolveImageSource(url, 0), first);
+        assert.equal(downloads, 2);
+    });
+
+    test('a cache hit keeps the file from being pruned', async () => {
+        const cached = await resolveImageSource(url, 0);
+        const old = new Date(Date.now() - 40 * DAY);
+        fs.utimesSync(cached, old, old);
+
+        await resolveImageSource(url, 0);
+        pruneImageCache();
+        assert.ok(fs.existsSync(cached));
+
+        fs.utimesSync(cached, old, old);
+        pruneImageCache();
+        assert.ok(!fs.existsSync(cached));
+        assert.deepEqual(JSON.parse(fs.readFileSync(URL_INDEX_FILE, 'utf-8')), {});
+    });
+});
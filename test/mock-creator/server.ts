@@ -0,0 +1,179 @@
+/**
+ * 本地模拟创作中心
+ *
+ * 提供 runPublish 用到的页面和接口: 扫码登录页、上传图文 tab、带上传进度的文件选择、
+ * 标题 / 正文编辑器、发布按钮、发布成功 / 失败提示，以及用户信息、图片上传、发布和草稿接口。
+ * 通过 XHS_AGENT_CREATOR_ORIGIN 指向它即可离线跑完整发布流程:
+ *
+ *   npm run mock-creator            # 默认监听 127.0.0.1:17900
+ *   XHS_AGENT_CREATOR_ORIGIN=http://127.0.0.1:17900 npx ts-node src/index.ts ...
+ *
+ * 手动调试时可用 POST /api/mock/login 模拟扫码确认、POST /api/mock/scenario 切换发布结果。
+ */
+
+import * as http from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const PAGES_DIR = path.join(__dirname, 'pages');
+
+// 8x8 black/white checkerboard rendered as the login QR code
+const QR_CODE = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAgAAAAIAQAAAADsdIMmAAAADklEQVR42mNYxRDKgIQBIUQD/TZLIakAAAAASUVORK5CYII=';
+
+export type MockPublishOutcome = 'success' | 'content_violation' | 'publish_failed';
+
+export interface MockScenario {
+    loggedIn: boolean;
+    publishOutcome: MockPublishOutcome;
+    uploadDelayMs: number;
+}
+
+export interface MockNote {
+    noteId: string;
+    title: string;
+    content: string;
+    imageCount: number;
+    draft: boolean;
+}
+
+export interface MockCreatorCenter {
+    readonly origin: string;
+    readonly scenario: MockScenario;
+    // Notes and drafts submitted through the publish page, in order
+    readonly notes: MockNote[];
+    // Number of image upload requests received
+    readonly uploads: number;
+    confirmLogin(): void;
+    // Restore the default scenario (with overrides) and forget recorded notes and uploads
+    reset(scenario?: Partial<MockScenario>): void;
+    close(): Promise<void>;
+}
+
+const DEFAULT_SCENARIO: MockScenario = { loggedIn: true, publishOutcome: 'success', uploadDelayMs: 300 };
+
+const PUBLISH_ERRORS: Record<Exclude<MockPublishOutcome, 'success'>, string> = {
+    content_violation: '内容违规',
+    publish_failed: '发布失败',
+};
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res: http.ServerResponse, body: object): void {
+    res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+}
+
+function sendPage(res: http.ServerResponse, name: string): void {
+    const html = fs.readFileSync(path.join(PAGES_DIR, name), 'utf-8').replace('{{QR_CODE}}', QR_CODE);
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+    res.end(html);
+}
+
+function redirect(res: http.ServerResponse, location: string): void {
+    res.writeHead(302, { Location: location });
+    res.end();
+}
+
+export async function startMockCreatorCenter(port = 0, host = '127.0.0.1'): Promise<MockCreatorCenter> {
+    const scenario: MockScenario = { ...DEFAULT_SCENARIO };
+    const notes: MockNote[] = [];
+    let uploads = 0;
+
+    async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const { pathname } = new URL(req.url ?? '/', 'http://mock');
+        const method = req.method ?? 'GET';
+
+        if (method === 'GET' && pathname === '/login') return sendPage(res, 'login.html');
+        if (method === 'GET' && pathname === '/api/mock/qrcode/status') {
+            return sendJson(res, { status: scenario.loggedIn ? 'confirmed' : 'waiting' });
+        }
+
+        // Pages behind the login wall
+        if (method === 'GET' && (pathname === '/new/home' || pathname === '/publish/publish')) {
+            if (!scenario.loggedIn) return redirect(res, '/login');
+            return sendPage(res, pathname === '/new/home' ? 'home.html' : 'publish.html');
+        }
+        if (method === 'GET' && pathname === '/api/galaxy/user/info') {
+            return sendJson(res, { success: true, data: { userId: 'mock-user', userName: 'Mock Creator' } });
+        }
+
+        if (method === 'POST' && pathname === '/api/media/v1/upload') {
+            await readBody(req);
+            await new Promise(resolve => setTimeout(resolve, scenario.uploadDelayMs));
+            uploads++;
+            return sendJson(res, { success: true, data: { fileId: `mock-file-${uploads}` } });
+        }
+
+        if (method === 'POST' && (pathname === '/web_api/sns/v2/note' || pathname === '/web_api/sns/v2/note/draft')) {
+            const body = JSON.parse((await readBody(req)).toString('utf-8'));
+            const draft = pathname.endsWith('/draft');
+            if (!draft && scenario.publishOutcome !== 'success') {
+                return sendJson(res, { success: false, code: -1, msg: PUBLISH_ERRORS[scenario.publishOutcome] });
+            }
+            const noteId = `mock-note-${notes.length + 1}`;
+            notes.push({ noteId, title: body.title, content: body.content, imageCount: body.imageCount, draft });
+            return sendJson(res, { success: true, code: 0, data: { id: noteId } });
+        }
+
+        // Manual control when running standalone
+        if (method === 'POST' && pathname === '/api/mock/login') {
+            scenario.loggedIn = true;
+            return sendJson(res, { scenario });
+        }
+        if (method === 'POST' && pathname === '/api/mock/scenario') {
+            Object.assign(scenario, JSON.parse((await readBody(req)).toString('utf-8') || '{}'));
+            return sendJson(res, { scenario });
+        }
+
+        res.writeHead(404);
+        res.end();
+    }
+
+    const server = http.createServer((req, res) => {
+        handle(req, res).catch((e: any) => {
+            res.writeHead(500, { 'Content-Type': 'text/plain' });
+            res.end(e.message);
+        });
+    });
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => resolve());
+    });
+    const address = server.address() as { port: number };
+
+    return {
+        origin: `http://${host}:${address.port}`,
+        scenario,
+        notes,
+        get uploads() {
+            return uploads;
+        },
+        confirmLogin() {
+            scenario.loggedIn = true;
+        },
+        reset(overrides = {}) {
+            Object.assign(scenario, DEFAULT_SCENARIO, overrides);
+            notes.length = 0;
+            uploads = 0;
+        },
+        close() {
+            server.closeAllConnections();
+            return new Promise(resolve => server.close(() => resolve()));
+        },
+    };
+}
+
+if (require.main === module) {
+    const port = Number(process.env.MOCK_CREATOR_PORT ?? 17900);
+    startMockCreatorCenter(port).then(mock => {
+        console.log(`Mock creator center listening on ${mock.origin}`);
+        console.log(`Run the agent with XHS_AGENT_CREATOR_ORIGIN=${mock.origin}`);
+    });
+}
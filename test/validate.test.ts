@@ -0,0 +1,96 @@
+/**
+ * 发布前校验测试
+ *
+ * 文本长度按实际输入编辑器的内容计算；预处理只对能修复的图片问题降级为警告。
+ */
+
+import { TEST_HOME, removeTestHome } from './environment';
+import { after, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublishConfig } from '../src/types';
+import { editorText, hasErrors, validatePublishConfig } from '../src/validate';
+
+const IMAGE = path.join(__dirname, 'fixtures', 'note-3x4.png');
+
+const config = (overrides: Partial<PublishConfig> = {}): PublishConfig => ({
+    title: '测试标题',
+    content: '测试正文',
+    imagePaths: [IMAGE],
+    ...overrides,
+});
+
+const codes = (c: PublishConfig) => validatePublishConfig(c).map(i => `${i.severity}:${i.code}`);
+
+// Minimal headers: enough for format and size detection
+function writeImage(name: string, header: Buffer): string {
+    const filePath = path.join(TEST_HOME, name);
+    fs.writeFileSync(filePath, header);
+    return filePath;
+}
+const gif = () => {
+    const header = Buffer.alloc(16);
+    header.write('GIF89a', 0, 'ascii');
+    header.writeUInt16LE(900, 6);
+    header.writeUInt16LE(1200, 8);
+    return writeImage('note.gif', header);
+};
+const heic = () => {
+    const header = Buffer.alloc(32);
+    header.writeUInt32BE(24, 0);
+    header.write('ftypheic', 4, 'ascii');
+    return writeImage('note.heic', header);
+};
+
+after(removeTestHome);
+
+describe('validatePublishConfig', () => {
+    test('accepts a complete note', () => {
+        assert.equal(hasErrors(validatePublishConfig(config())), false);
+    });
+
+    test('requires a title within the platform limit', () => {
+        assert.deepEqual(codes(config({ title: ' ' })), ['error:title_required']);
+        assert.deepEqual(codes(config({ title: '标'.repeat(21) })), ['error:title_too_long']);
+        assert.deepEqual(codes(config({ title: '标'.repeat(20) })), []);
+    });
+
+    test('counts the title line against the content limit', () => {
+        const title = '标题';
+        const fits = '字'.repeat(1000 - title.length - 1);
+        assert.equal(Array.from(editorText(config({ title, content: fits }))).length, 1000);
+        assert.deepEqual(codes(config({ title, content: fits })), []);
+        assert.deepEqual(codes(config({ title, content: fits + '字' })), ['error:content_too_long']);
+    });
+
+    test('reports topic and mention syntax errors', () => {
+        assert.deepEqual(codes(config({ content: '看这里 # 和 @' })), ['error:topic_empty', 'error:mention_empty']);
+        assert.deepEqual(codes(config({ content: 'mail me: a@b.com' })), []);
+        assert.deepEqual(codes(config({ topics: ['两个 词'] })), ['error:topics_syntax']);
+    });
+
+    test('requires media', () => {
+        assert.deepEqual(codes(config({ imagePaths: [] })), ['error:media_required']);
+        assert.deepEqual(codes(config({ imagePaths: [path.join(TEST_HOME, 'missing.png')] })), ['error:file_unreadable']);
+    });
+
+    test('rejects unknown enum values and accounts', () => {
+        assert.deepEqual(codes(config({ mode: 'later' as any })), ['error:mode_invalid']);
+        assert.deepEqual(codes(config({ duplicateContent: 'ignore' as any })), ['error:duplicate_content_invalid']);
+        assert.deepEqual(codes(config({ accountId: 'nobody' })), ['error:account_unknown']);
+    });
+
+    test('preprocessing turns convertible formats into warnings', () => {
+        const image = gif();
+        assert.deepEqual(codes(config({ imagePaths: [image] })), ['error:image_format_unsupported']);
+        assert.deepEqual(codes(config({ imagePaths: [image], preprocess: {} })), ['warning:image_format_unsupported']);
+    });
+
+    test('HEIC is only convertible on macOS', () => {
+        const issues = validatePublishConfig(config({ imagePaths: [heic()], preprocess: {} }));
+        assert.deepEqual(issues.map(i => `${i.severity}:${i.code}`), process.platform === 'darwin'
+            ? ['warning:image_format_unsupported']
+            : ['error:image_format_unconvertible']);
+    });
+});